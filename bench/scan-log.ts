@@ -0,0 +1,93 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+// Compares streaming a large log into a LogScanner against downloading it whole and scanning the
+// string, using a local fixture server that generates the log on the fly. Run with
+// `npm run bench -- <log size in MiB>`, the default is 64.
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import request from 'request-promise-native'
+
+import { scanForOutput } from '../src/output'
+import { LogScanner, streamLog } from '../src/scanner'
+
+const log: any = { debug: () => undefined, warn: console.warn }
+const options = {
+  buildInfo: { domain: 'localhost', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' },
+  endMarker: 'Your build exited',
+  fence: 'output',
+  workingDirectory: '/home/travis/build/o/r'
+}
+
+const LINE = `${'x'.repeat(99)}\n`
+const BLOCK = '---output\n{ "title": "Bench", "summary": "Done" }\n---\nYour build exited with 0.\n'
+
+// Serves a log of about `size` bytes that ends with an output block, honouring `Range: bytes=n-`
+function serveLog (size: number): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const range = /bytes=(\d+)-/.exec((req.headers.range as string) || '')
+    let offset = range ? Number(range[1]) : 0
+    res.writeHead(range ? 206 : 200, { 'Content-Type': 'text/plain' })
+
+    const chunk = LINE.repeat(Math.floor(65536 / LINE.length))
+    const filler = Math.floor((size - BLOCK.length) / LINE.length) * LINE.length
+    const write = () => {
+      while (offset < filler) {
+        const part = chunk.substr(offset % LINE.length, filler - offset)
+        offset += part.length
+        if (!res.write(part)) {
+          res.once('drain', write)
+          return
+        }
+      }
+      res.end(BLOCK.substr(offset - filler))
+    }
+    res.on('close', () => res.removeAllListeners('drain'))
+    write()
+  })
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)))
+}
+
+async function measure (name: string, run: () => Promise<object | undefined>): Promise<void> {
+  if (global.gc) {
+    global.gc()
+  }
+  const baseline = process.memoryUsage().rss
+  let peak = baseline
+  const sampler = setInterval(() => (peak = Math.max(peak, process.memoryUsage().rss)), 5)
+  const start = process.hrtime()
+  const output = await run()
+  const [s, ns] = process.hrtime(start)
+  clearInterval(sampler)
+
+  const ms = (s * 1e3 + ns / 1e6).toFixed(0)
+  const mib = ((peak - baseline) / 1048576).toFixed(1)
+  console.log(`${name}: ${ms}ms, +${mib}MiB peak RSS, output ${JSON.stringify(output)}`)
+}
+
+async function main (): Promise<void> {
+  const size = Number(process.argv[2] || 64) * 1048576
+  const server = await serveLog(size)
+  const uri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/log.txt`
+  console.log(`Scanning a ${(size / 1048576).toFixed(0)}MiB log`)
+
+  try {
+    await measure('download', async () => {
+      const content = (await request({ uri }).promise()) as string
+      return scanForOutput(log, '1', content, options)
+    })
+    await measure('stream', async () => {
+      const scanner = new LogScanner(log, '1', options)
+      await streamLog(uri, {}, scanner)
+      return scanner.closedBlocks.map(b => b.lines)
+    })
+  } finally {
+    server.close()
+  }
+}
+
+main().catch(e => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { metrics } from './metrics'
+
+export interface CachedResponse<T> {
+  // Validator to send as `If-None-Match` once the response is no longer fresh
+  readonly etag?: string
+  readonly fresh: boolean
+  readonly value: T
+}
+
+metrics.describe('cache_requests_total', 'API responses looked up in caches, by cache and result')
+
+interface CacheEntry<T> {
+  readonly etag?: string
+  readonly expires: number
+  readonly value: T
+}
+
+// Caches API responses for `ttl` milliseconds, after which they may be revalidated with their
+// ETag. Every lookup is counted in the `cache_requests_total` metric as a hit (fresh), a
+// revalidation (answered with 304 Not Modified) or a miss (fetched again). Once `maxEntries` is
+// reached the oldest responses are dropped.
+export class ResponseCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>()
+  private readonly maxEntries: number
+  private readonly name: string
+  private readonly ttl: number
+
+  public constructor (name: string, ttl: number, maxEntries = 1000) {
+    this.name = name
+    this.ttl = ttl
+    this.maxEntries = maxEntries
+  }
+
+  public get size (): number {
+    return this.entries.size
+  }
+
+  // Returns the cached response, stale or not, counting a hit if it is fresh
+  public get (key: string): CachedResponse<T> | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    const fresh = entry.expires > Date.now()
+    if (fresh) {
+      this.count('hit')
+    }
+    return { etag: entry.etag, fresh, value: entry.value }
+  }
+
+  // Stores a response that had to be fetched. A `ttl` of 0 keeps it only for revalidation.
+  public set (key: string, value: T, etag?: string, ttl = this.ttl): void {
+    this.count('miss')
+    this.entries.delete(key)
+    this.entries.set(key, { etag, expires: Date.now() + ttl, value })
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break
+      }
+      this.entries.delete(oldest)
+    }
+  }
+
+  // Marks a stale response fresh again after the server confirmed it is unchanged
+  public revalidate (key: string, ttl = this.ttl): void {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.count('revalidated')
+      this.entries.set(key, { ...entry, expires: Date.now() + ttl })
+    }
+  }
+
+  // Applies a change made through the API to the cached response, if there is one, so that it
+  // doesn't have to be fetched again. The ETag is dropped as it no longer matches the response.
+  public update (key: string, change: (value: T) => T): void {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.set(key, { expires: entry.expires, value: change(entry.value) })
+    }
+  }
+
+  public delete (key: string): void {
+    this.entries.delete(key)
+  }
+
+  public clear (): void {
+    this.entries.clear()
+  }
+
+  private count (result: string): void {
+    metrics.increment('cache_requests_total', { cache: this.name, result })
+  }
+}
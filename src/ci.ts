@@ -1,19 +1,29 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { Context } from 'probot'
+
+import { SidecarConfig } from './config'
+
 export interface BuildInfo {
   readonly domain: string
   readonly headSha: string
   readonly id: string
   readonly owner: string
+  readonly project?: string
   readonly repo: string
 }
 
 export interface JobInfo {
+  // Branch that was pushed, only set for push builds
+  readonly branch?: string
   readonly jobId: string
   readonly finishedAt: string
   readonly ignoreFailure: boolean
+  // Jobs folded into this one because they share its check name, see `GitHub.groupJobs`
+  readonly jobs?: ReadonlyArray<JobInfo>
   readonly name: string
+  readonly parser?: string
   readonly startedAt: string
   readonly state: string
   readonly url: string
@@ -29,3 +39,64 @@ export interface StatusInfo {
 }
 
 export type GetJobOutputFunc = (jobInfo: JobInfo) => Promise<object | undefined>
+
+export interface CIBuild {
+  // Returns undefined if the build's event isn't mirrored, errors loading the build are thrown
+  // so that the build can be retried
+  getSupportedJobs (): Promise<ReadonlyArray<JobInfo> | undefined>
+  getJobOutput (jobInfo: JobInfo): Promise<object | undefined>
+  // Returns the job's raw log, which may still be incomplete if the job is running
+  getJobLog (jobId: string): Promise<string>
+  cancelBuild (): Promise<void>
+  restartBuild (): Promise<void>
+  restartJob (jobId: string): Promise<void>
+}
+
+export interface CIProvider {
+  // Domains of the builds created by this provider, as stored in check run external IDs
+  readonly domains: ReadonlyArray<string>
+  readonly name: string
+  // Whether restarted jobs keep their IDs. Jobs that are restarted as new jobs, like GitLab's,
+  // can't be marked queued as their checks would never be updated, the new jobs get checks of
+  // their own instead.
+  readonly restartKeepsJobIds: boolean
+  readonly statusContexts: ReadonlyArray<string>
+  createBuild (context: Context, buildInfo: BuildInfo, config: SidecarConfig): CIBuild
+  // Drops what is cached of the build, as a status event for it means that it changed, e.g. when
+  // it was restarted from the CI system
+  forgetBuild (buildInfo: BuildInfo): void
+  // Recovers the project of a build from the details URL of one of its check runs, for CI systems
+  // whose projects may be named differently from the repository
+  parseProject (detailsUrl: string): string | undefined
+  parseStatus (status: StatusInfo): BuildInfo | undefined
+}
+
+// Milliseconds a request to a CI system may wait for a connection or for data before it fails with
+// ETIMEDOUT or ESOCKETTIMEDOUT, which are retried like other network errors. A stalled request
+// would otherwise hold up the build queue for good.
+export const REQUEST_TIMEOUT = 30000
+
+// Joins the IDs of grouped jobs into the ID of their group
+export const GROUP_ID_SEPARATOR = '+'
+
+// IDs of the jobs a job ID stands for, several for grouped jobs
+export function getJobIds (jobId: string): string[] {
+  return jobId.split(GROUP_ID_SEPARATOR)
+}
+
+// Replaces each `${NAME}` in a check name with the value of the variable `NAME`, or with nothing
+// if the variable isn't set, e.g. `Tests (${NODE_VERSION})`
+export function interpolateName (
+  template: string,
+  getVariable: (name: string) => string | undefined
+): string {
+  return template.replace(/\$\{(\w+)\}/g, (_, name) => getVariable(name) || '')
+}
+
+// Thrown by a CI build when its API refuses access, so the failure can be reported on the PR
+export class AuthorizationError extends Error {
+  public constructor (message: string) {
+    super(message)
+    this.name = 'AuthorizationError'
+  }
+}
@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { JobInfo } from './ci'
+
+export type Command =
+  | { readonly name: 'cancel' }
+  | { readonly name: 'status' }
+  | { readonly name: 'help'; readonly error?: string }
+  | { readonly name: 'rescan'; readonly checkName?: string }
+  | { readonly name: 'restart'; readonly checkName: string }
+
+// Commands that change the build, which only collaborators with write access may use
+export const PRIVILEGED_COMMANDS: ReadonlyArray<Command['name']> = ['cancel', 'restart']
+
+// Parses a PR comment such as `/ci restart Unit tests`, returning undefined if the comment isn't
+// a command. Only the first line of the comment is considered. `rescanCommand` is accepted as
+// an alias of `<prefix> rescan` so that existing configurations keep working.
+export function parseCommand (
+  body: string,
+  prefix: string,
+  rescanCommand: string
+): Command | undefined {
+  const line = body
+    .trim()
+    .split(/\r?\n/)[0]
+    .trim()
+  if (line.toLowerCase() === rescanCommand.toLowerCase()) {
+    return { name: 'rescan' }
+  }
+
+  const [first, subcommand = '', ...rest] = line.split(/\s+/)
+  if (first.toLowerCase() !== prefix.toLowerCase()) {
+    return undefined
+  }
+
+  const checkName = rest.join(' ') || undefined
+  switch (subcommand.toLowerCase()) {
+    case 'rescan':
+      return { checkName, name: 'rescan' }
+    case 'restart':
+      return checkName
+        ? { checkName, name: 'restart' }
+        : { error: `\`${prefix} restart\` needs the name of the check to restart.`, name: 'help' }
+    case 'cancel':
+      return { name: 'cancel' }
+    case 'status':
+      return { name: 'status' }
+    case '':
+    case 'help':
+      return { name: 'help' }
+    default:
+      return { error: `\`${prefix} ${subcommand}\` is not a known command.`, name: 'help' }
+  }
+}
+
+export function getHelpText (prefix: string, error?: string): string {
+  const lines = [
+    `- \`${prefix} rescan [check name]\`: update one check, or all of them, from the latest build`,
+    `- \`${prefix} restart <check name>\`: restart the job behind a check`,
+    `- \`${prefix} cancel\`: cancel the latest build`,
+    `- \`${prefix} status\`: list the jobs of the latest build and their checks`,
+    `- \`${prefix} help\`: show this message`,
+    '',
+    '`restart` and `cancel` can only be used by collaborators with write access.'
+  ]
+  return `${error ? `${error}\n\n` : ''}CI Sidecar understands these commands:\n\n${lines.join(
+    '\n'
+  )}`
+}
+
+// Describes the jobs of a build as a markdown table, `getCheckName` maps a job to its check name
+export function getStatusTable (
+  jobs: ReadonlyArray<JobInfo>,
+  getCheckName: (job: JobInfo) => string
+): string {
+  if (jobs.length === 0) {
+    return 'The latest build has no jobs that are mirrored as checks.'
+  }
+
+  const rows = jobs.map(
+    j => `| [${j.jobId}](${j.url}) | ${escapeCell(getCheckName(j))} | ${j.state} |`
+  )
+  return ['| Job | Check | State |', '| --- | --- | --- |', ...rows].join('\n')
+}
+
+// Check names are matched case insensitively, with or without the configured prefix
+export function findJobByCheckName (
+  jobs: ReadonlyArray<JobInfo>,
+  checkName: string,
+  getCheckName: (job: JobInfo) => string
+): JobInfo | undefined {
+  const name = checkName.toLowerCase()
+  return jobs.find(j => getCheckName(j).toLowerCase() === name || j.name.toLowerCase() === name)
+}
+
+function escapeCell (text: string): string {
+  return text.replace(/\|/g, '\\|')
+}
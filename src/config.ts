@@ -0,0 +1,162 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Context } from 'probot'
+
+export const CONFIG_FILE = 'ci-sidecar.yml'
+
+export const SUPPORTED_EVENTS = ['pull_request', 'push', 'cron', 'api']
+
+export interface SidecarConfig {
+  readonly annotationLimit: number
+  readonly checkNamePrefix: string
+  readonly checkNameVariable: string
+  readonly checkParserVariable: string
+  readonly commandPrefix: string
+  readonly events: ReadonlyArray<string>
+  // Whether jobs with the same check name are folded into a single check
+  readonly groupJobs: boolean
+  // Branch whose push builds each step's history is compared against
+  readonly historyBranch: string
+  // Number of recent builds on `historyBranch` to summarize in checks, 0 to leave history out
+  readonly historyLength: number
+  readonly logExcerptLines: number
+  readonly outputFence: string
+  // Seconds to wait for a finished job's log to be complete before completing its check without
+  // output, the output is added once the log is complete
+  readonly outputTimeout: number
+  readonly rescanCommand: string
+  // Name of the check that summarizes every job of a build, no summary check is added if empty
+  readonly summaryCheckName: string
+}
+
+export const DEFAULT_CONFIG: SidecarConfig = {
+  annotationLimit: 1000,
+  checkNamePrefix: '',
+  checkNameVariable: 'CHECK_NAME',
+  checkParserVariable: 'CHECK_PARSER',
+  commandPrefix: '/ci',
+  // Push builds of a PR's branch report on the same commit as its PR build, so mirroring them
+  // too would show every check twice
+  events: ['pull_request'],
+  groupJobs: false,
+  historyBranch: 'main',
+  historyLength: 20,
+  logExcerptLines: 100,
+  outputFence: 'output',
+  outputTimeout: 120,
+  rescanCommand: '/ci rescan',
+  summaryCheckName: ''
+}
+
+export class ConfigError extends Error {
+  public constructor (message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+// Loads .github/ci-sidecar.yml from the repository's default branch, throwing a ConfigError
+// describing every problem found if the file cannot be used
+export async function loadConfig (context: Context): Promise<SidecarConfig> {
+  let raw: any
+  try {
+    raw = await context.config(CONFIG_FILE)
+  } catch (e) {
+    if (e.name === 'YAMLException') {
+      throw new ConfigError(`\`.github/${CONFIG_FILE}\` is not valid YAML:\n\n    ${e.message}`)
+    }
+    throw e
+  }
+
+  return parseConfig(raw)
+}
+
+// Validates settings read from the configuration file and fills in the defaults
+export function parseConfig (raw: any): SidecarConfig {
+  if (raw === null || raw === undefined) {
+    return DEFAULT_CONFIG
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(`\`.github/${CONFIG_FILE}\` must contain a mapping of settings`)
+  }
+
+  const errors = validateConfig(raw)
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `\`.github/${CONFIG_FILE}\` has the following problems:\n\n${errors
+        .map(e => `- ${e}`)
+        .join('\n')}`
+    )
+  }
+
+  return { ...DEFAULT_CONFIG, ...raw }
+}
+
+function validateConfig (raw: { [key: string]: any }): string[] {
+  const errors: string[] = []
+  const expectString = (key: string, pattern: RegExp, description: string) => {
+    if (key in raw && (typeof raw[key] !== 'string' || !pattern.test(raw[key]))) {
+      errors.push(`\`${key}\` must be ${description}`)
+    }
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in DEFAULT_CONFIG)) {
+      errors.push(`\`${key}\` is not a recognized setting`)
+    }
+  }
+
+  if (
+    'annotationLimit' in raw &&
+    !(Number.isInteger(raw.annotationLimit) && raw.annotationLimit >= 0)
+  ) {
+    errors.push('`annotationLimit` must be a non-negative integer')
+  }
+
+  if (
+    'logExcerptLines' in raw &&
+    !(Number.isInteger(raw.logExcerptLines) && raw.logExcerptLines > 0)
+  ) {
+    errors.push('`logExcerptLines` must be a positive integer')
+  }
+
+  if ('historyLength' in raw && !(Number.isInteger(raw.historyLength) && raw.historyLength >= 0)) {
+    errors.push('`historyLength` must be a non-negative integer')
+  }
+
+  if ('outputTimeout' in raw && !(Number.isInteger(raw.outputTimeout) && raw.outputTimeout > 0)) {
+    errors.push('`outputTimeout` must be a positive integer')
+  }
+
+  if ('groupJobs' in raw && typeof raw.groupJobs !== 'boolean') {
+    errors.push('`groupJobs` must be true or false')
+  }
+
+  expectString('checkNamePrefix', /^/, 'a string')
+  expectString('checkNameVariable', /^[A-Za-z_][A-Za-z0-9_]*$/, 'a valid environment variable name')
+  expectString(
+    'checkParserVariable',
+    /^[A-Za-z_][A-Za-z0-9_]*$/,
+    'a valid environment variable name'
+  )
+  expectString('commandPrefix', /^\S+$/, 'a non-empty string without whitespace')
+  expectString('historyBranch', /\S/, 'a non-empty string')
+  expectString('outputFence', /^\S+$/, 'a non-empty string without whitespace')
+  expectString('rescanCommand', /\S/, 'a non-empty string')
+  expectString('summaryCheckName', /^/, 'a string')
+
+  if ('events' in raw) {
+    const events = raw.events
+    if (!Array.isArray(events) || events.some(e => !SUPPORTED_EVENTS.includes(e))) {
+      errors.push(
+        `\`events\` must be a list containing any of ${SUPPORTED_EVENTS.map(e => `\`${e}\``).join(
+          ', '
+        )}`
+      )
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,324 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+// Prints the check runs Sidecar would create for Travis job logs on disk, so that output blocks
+// can be tried out without pushing a build. Run with `npm run dry-run -- --help`.
+
+import Octokit from '@octokit/rest'
+import fs from 'fs'
+import yaml from 'js-yaml'
+import path from 'path'
+import { Context, Logger } from 'probot'
+
+import { BuildInfo, JobInfo } from './ci'
+import { ConfigError, DEFAULT_CONFIG, parseConfig, SidecarConfig } from './config'
+import { GitHub } from './github'
+import { INVALID_OUTPUT_TITLE } from './output'
+import { Travis, TravisBuild } from './travis'
+
+export interface DryRunOptions {
+  // Travis build JSON, as returned by `/build/<id>?include=build.jobs,job.config`
+  readonly build?: string
+  readonly config?: string
+  readonly domain: string
+  // Log files, matched to the build's jobs by the last number in their name
+  readonly logs: ReadonlyArray<string>
+  // Check name and parser of a single log without a build
+  readonly name?: string
+  readonly parser?: string
+  // `owner/repo`
+  readonly repo?: string
+  readonly sha?: string
+  readonly verbose: boolean
+}
+
+// A request that Sidecar would have made to the Checks API
+export interface CheckRunRequest {
+  readonly method: 'create' | 'update'
+  readonly params: Octokit.ChecksCreateParams | Octokit.ChecksUpdateParams
+}
+
+type LogFunc = (...args: Array<string | object>) => void
+
+// The parts of a logger that Sidecar uses
+interface StubLogger extends LogFunc {
+  readonly debug: LogFunc
+  readonly error: LogFunc
+  readonly fatal: LogFunc
+  readonly info: LogFunc
+  readonly trace: LogFunc
+  readonly warn: LogFunc
+  child (): StubLogger
+}
+
+// The parts of a webhook context that a Travis build and its checks use during a dry run
+interface StubContext {
+  readonly github: {
+    readonly checks: {
+      create (params: Octokit.ChecksCreateParams): Promise<StubResponse<{ id: number }>>
+      listForRef (): Promise<StubResponse<Octokit.ListForRefResponse>>
+      update (params: Octokit.ChecksUpdateParams): Promise<StubResponse<{ id: string }>>
+    }
+    paginate<T, R> (response: Promise<T>, map: (res: T) => R): Promise<R>
+  }
+  readonly log: Logger
+  readonly payload: object
+}
+
+interface StubResponse<T> {
+  readonly data: T
+  readonly headers: object
+}
+
+export class UsageError extends Error {
+  public constructor (message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+const USAGE = `Usage: npm run dry-run -- [options] <log>...
+
+Prints the check runs Sidecar would create for Travis job logs, as JSON.
+
+Options:
+  --build <file>      Travis build JSON from /build/<id>?include=build.jobs,job.config. Logs are
+                      matched to its jobs by the job ID in their name, e.g. 123.log
+  --config <file>     Sidecar configuration, e.g. .github/ci-sidecar.yml
+  --name <name>       Check name of a single log without --build, defaults to the file name
+  --parser <name>     Log parser of a single log without --build
+  --repo <owner/repo> Repository of annotation links
+  --sha <sha>         Commit of annotation links
+  --domain <domain>   Travis domain of job links, defaults to travis-ci.com
+  --verbose           Log what Sidecar does to stderr
+
+Exits with 1 if any output is invalid or couldn't be read.`
+
+const VALUE_OPTIONS = ['build', 'config', 'domain', 'name', 'parser', 'repo', 'sha']
+
+export function parseArgs (args: ReadonlyArray<string>): DryRunOptions {
+  const values: { [option: string]: string } = {}
+  const logs: string[] = []
+  let verbose = false
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i].startsWith('--') ? args[i].substr(2) : undefined
+    if (option === undefined) {
+      logs.push(args[i])
+    } else if (option === 'verbose') {
+      verbose = true
+    } else if (VALUE_OPTIONS.includes(option) && i + 1 < args.length) {
+      values[option] = args[++i]
+    } else {
+      throw new UsageError(option === 'help' ? '' : `Unknown option or missing value: --${option}`)
+    }
+  }
+
+  if (logs.length === 0 || (!values.build && logs.length > 1)) {
+    throw new UsageError(
+      values.build ? 'No logs given' : 'Exactly one log is needed without --build'
+    )
+  }
+  if (values.repo && !/^[^/]+\/[^/]+$/.test(values.repo)) {
+    throw new UsageError('--repo must be given as owner/repo')
+  }
+  return { domain: 'travis-ci.com', ...values, logs, verbose }
+}
+
+// Runs the logs through the same scanning, parsing and check run creation as a Travis build,
+// recording the requests that would have been made instead of sending them
+export async function dryRun (
+  options: DryRunOptions,
+  log: Logger
+): Promise<ReadonlyArray<CheckRunRequest>> {
+  const config = readConfig(options.config)
+  const build = options.build ? (readJson(options.build) as TravisBuild) : undefined
+  const [owner, repo] = (
+    options.repo ||
+    (build && build.repository && build.repository.slug) ||
+    'owner/repo'
+  ).split('/')
+  const buildInfo: BuildInfo = {
+    domain: options.domain,
+    headSha: options.sha || (build && build.commit && build.commit.sha) || 'HEAD',
+    id: build && build.id ? build.id.toString() : '0',
+    owner,
+    repo
+  }
+
+  const requests: CheckRunRequest[] = []
+  const context = createRecordingContext(requests, log)
+  const travis = new Travis(context, buildInfo, config)
+  const logs = new Map<string, string>()
+  let jobs: ReadonlyArray<JobInfo>
+  if (build) {
+    for (const file of options.logs) {
+      const jobId = (/(\d+)\D*$/.exec(path.basename(file)) || [])[1]
+      if (!jobId) {
+        throw new UsageError(`The name of ${file} doesn't contain a job ID`)
+      }
+      logs.set(jobId, file)
+    }
+    jobs = travis.getJobs(build) || []
+  } else {
+    const file = options.logs[0]
+    logs.set('1', file)
+    jobs = [getLogJob(file, options)]
+  }
+
+  const github = new GitHub(0, context, buildInfo, config, async job => {
+    const file = logs.get(job.jobId)
+    if (!file) {
+      log.warn(`No log given for job ${job.jobId} ('${job.name}')`)
+      return undefined
+    }
+    return travis.getOutputFromLog(job, fs.readFileSync(file, 'utf8'))
+  })
+
+  if (config.groupJobs) {
+    jobs = github.groupJobs(jobs)
+  }
+  for (const job of jobs) {
+    await github.createCheck(job)
+  }
+  if (config.summaryCheckName) {
+    await github.updateSummaryCheck(jobs)
+  }
+  return requests
+}
+
+// Whether any check run would have had output that Sidecar couldn't read
+export function hasInvalidOutput (requests: ReadonlyArray<CheckRunRequest>): boolean {
+  return requests.some(
+    r => r.params.output !== undefined && r.params.output.title === INVALID_OUTPUT_TITLE
+  )
+}
+
+function readConfig (file: string | undefined): SidecarConfig {
+  if (!file) {
+    return DEFAULT_CONFIG
+  }
+
+  let raw: {} | undefined
+  try {
+    raw = yaml.safeLoad(fs.readFileSync(file, 'utf8'))
+  } catch (e) {
+    if (e.name === 'YAMLException') {
+      throw new ConfigError(`\`${file}\` is not valid YAML:\n\n    ${e.message}`)
+    }
+    throw e
+  }
+  return parseConfig(raw)
+}
+
+function readJson (file: string): object {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (e) {
+    throw new UsageError(`Unable to read ${file}: ${e.message}`)
+  }
+}
+
+// A single log stands for a finished job, which failed if the log says so
+function getLogJob (file: string, options: DryRunOptions): JobInfo {
+  const content = fs.readFileSync(file, 'utf8')
+  const exitCode = (/Your build exited with (\d+)/.exec(content) || [])[1]
+  const now = new Date().toISOString()
+  return {
+    finishedAt: now,
+    ignoreFailure: false,
+    jobId: '1',
+    name: options.name || path.basename(file),
+    parser: options.parser,
+    startedAt: now,
+    state: exitCode && exitCode !== '0' ? 'failed' : 'passed',
+    url: `https://${options.domain}/${options.repo || 'owner/repo'}/jobs/1`
+  }
+}
+
+// Stands in for a webhook context, answering the Checks API calls Sidecar makes as if there were
+// no check runs yet
+function createRecordingContext (requests: CheckRunRequest[], log: Logger): Context {
+  let nextId = 1
+  const context: StubContext = {
+    github: {
+      checks: {
+        create: async params => {
+          requests.push({ method: 'create', params })
+          return { data: { id: nextId++ }, headers: {} }
+        },
+        listForRef: async () => ({ data: { check_runs: [], total_count: 0 }, headers: {} }),
+        update: async params => {
+          requests.push({ method: 'update', params })
+          return { data: { id: params.check_run_id }, headers: {} }
+        }
+      },
+      paginate: async (response, map) => map(await response)
+    },
+    log,
+    payload: {}
+  }
+  // Nothing else of the context is used during a dry run
+  return (context as object) as Context
+}
+
+// Writes warnings and errors to stderr, and everything else too if `verbose` is set, so that
+// stdout only has the check runs. `onError` is called for every error.
+function createLogger (verbose: boolean, onError: () => void): Logger {
+  const write = (level: string, always: boolean): LogFunc => (...args) => {
+    if (level === 'error') {
+      onError()
+    }
+    if (verbose || always) {
+      const messages = args.filter(a => typeof a === 'string')
+      const errors = args
+        .filter((a): a is Error => a instanceof Error)
+        .map(e => (verbose ? e.stack : e.message))
+      process.stderr.write(`${level}: ${[...messages, ...errors].join(': ')}\n`)
+    }
+  }
+
+  const info = write('info', false)
+  // Spreading the function would drop its call signature
+  // tslint:disable-next-line:prefer-object-spread
+  const log: StubLogger = Object.assign(info, {
+    child: () => log,
+    debug: write('debug', false),
+    error: write('error', true),
+    fatal: write('error', true),
+    info,
+    trace: write('trace', false),
+    warn: write('warn', true)
+  })
+  // Nothing else of the logger is used by Sidecar
+  return (log as object) as Logger
+}
+
+async function main (): Promise<number> {
+  let options
+  try {
+    options = parseArgs(process.argv.slice(2))
+  } catch (e) {
+    process.stderr.write(`${e.message ? `${e.message}\n\n` : ''}${USAGE}\n`)
+    return e.message ? 2 : 0
+  }
+
+  let failed = false
+  try {
+    const log = createLogger(options.verbose, () => (failed = true))
+    const requests = await dryRun(options, log)
+    process.stdout.write(`${JSON.stringify(requests, undefined, 2)}\n`)
+    return failed || hasInvalidOutput(requests) ? 1 : 0
+  } catch (e) {
+    process.stderr.write(
+      `${e instanceof UsageError || e instanceof ConfigError ? e.message : e.stack}\n`
+    )
+    return 2
+  }
+}
+
+if (require.main === module) {
+  // main reports its own errors
+  main()
+    .then(code => (process.exitCode = code))
+    .catch(e => e)
+}
@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+export interface RecentError {
+  readonly buildId: string
+  readonly jobId?: string
+  readonly message: string
+  readonly occurredAt: string
+  // Operation that failed, e.g. `createCheck` or `getJobOutput`
+  readonly operation: string
+  // `owner/repo`
+  readonly repo: string
+}
+
+// Keeps the last `maxErrors` errors that were logged while mirroring jobs, so that they can be
+// looked at without access to the logs
+export class RecentErrors {
+  private readonly errors: RecentError[] = []
+  private readonly maxErrors: number
+
+  public constructor (maxErrors = 100) {
+    this.maxErrors = maxErrors
+  }
+
+  public add (error: RecentError): void {
+    this.errors.push(error)
+    if (this.errors.length > this.maxErrors) {
+      this.errors.splice(0, this.errors.length - this.maxErrors)
+    }
+  }
+
+  // Newest first
+  public list (): ReadonlyArray<RecentError> {
+    return [...this.errors].reverse()
+  }
+
+  public clear (): void {
+    this.errors.length = 0
+  }
+}
+
+export const recentErrors = new RecentErrors()
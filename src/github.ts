@@ -7,17 +7,169 @@ import { Context, Logger } from 'probot'
 import { GitHubAPI } from 'probot/lib/github'
 
 import { IssueComment } from 'github-webhook-event-types'
-import { BuildInfo, GetJobOutputFunc, JobInfo, StatusInfo } from './ci'
+import { ResponseCache } from './cache'
+import { BuildInfo, GetJobOutputFunc, GROUP_ID_SEPARATOR, JobInfo, StatusInfo } from './ci'
+import { SidecarConfig } from './config'
+import { recentErrors } from './errors'
+import { formatDuration, getHistoryNote, JobHistory, StepStats } from './history'
+import { metrics } from './metrics'
+import { LogIncompleteError } from './output'
+import { stripAnsi } from './parsers'
+import { rateLimiter, RateLimitError } from './ratelimit'
+import { MAX_TEXT_LENGTH } from './validation'
+
+// The parts of a check run that identify the job it mirrors
+export interface CheckRunInfo {
+  readonly details_url?: string
+  readonly external_id: string
+  readonly head_sha: string
+  readonly name: string
+}
+
+// A check run that has output, as received in `check_run` webhooks
+export interface CompletedCheckRunInfo extends CheckRunInfo {
+  readonly id: number
+  readonly output: {
+    readonly summary?: string
+    readonly title?: string
+  }
+}
+
+// Identifiers of the actions offered on failed checks
+export type CheckAction = 'cancel_build' | 'restart_job' | 'show_log'
+
+// The fields of a listed check run that Sidecar relies on
+export interface ExistingCheckRun {
+  readonly completed_at?: string
+  readonly conclusion?: string
+  readonly external_id: string
+  readonly id: number
+  readonly name: string
+  readonly output: {
+    readonly summary?: string
+    readonly title?: string
+  }
+  readonly status: string
+}
+
+// The fields of a check run that Sidecar sets when creating or updating it
+interface CheckRunChange {
+  readonly completed_at?: string
+  readonly conclusion?: string
+  readonly external_id?: string
+  readonly name?: string
+  readonly output?: {
+    readonly summary?: string
+    readonly title?: string
+  }
+  readonly status?: string
+}
+
+// Sidecar's own check runs by app, repository and commit. Only Sidecar changes them and it writes
+// its changes through to the cache, so listings can be kept for a while and are only revalidated
+// in case a change was missed, e.g. by another instance.
+export const checkRunCache = new ResponseCache<ReadonlyArray<ExistingCheckRun>>(
+  'check_runs',
+  5 * 60 * 1000
+)
+
+metrics.describe('checks_created_total', 'Checks created for jobs')
+metrics.describe('checks_deferred_total', 'Checks deferred because of rate limits')
+
+export interface ExternalId {
+  readonly buildId: string
+  readonly domain: string
+  readonly jobId: string
+}
 
 export class GitHub {
+  // External IDs have the form `domain/buildId/jobId`, where `jobId` is `error` for error checks
+  public static parseExternalId (externalId: string | undefined): ExternalId | undefined {
+    const [domain, buildId, jobId] = (externalId || '').split('/')
+    return domain && buildId && jobId ? { buildId, domain, jobId } : undefined
+  }
+
+  public static async replyToComment (
+    context: Context,
+    issueComment: IssueComment,
+    body: string
+  ): Promise<void> {
+    const repo = issueComment.repository
+    try {
+      await callGitHub(context, false, () =>
+        context.github.issues.createComment({
+          body: `@${issueComment.comment.user.login} ${body}`,
+          number: issueComment.issue.number,
+          owner: repo.owner.login,
+          repo: repo.name
+        })
+      )
+    } catch (e) {
+      context.log.error(
+        e,
+        `Error occurred replying to comment on PR ${issueComment.issue.number} in ${repo.full_name}`
+      )
+    }
+  }
+
+  public static async hasWriteAccess (
+    context: Context,
+    issueComment: IssueComment
+  ): Promise<boolean> {
+    const repo = issueComment.repository
+    try {
+      const result = await callGitHub(context, true, () =>
+        context.github.repos.reviewUserPermissionLevel({
+          owner: repo.owner.login,
+          repo: repo.name,
+          username: issueComment.comment.user.login
+        })
+      )
+      return ['admin', 'write'].includes(result.data.permission)
+    } catch (e) {
+      context.log.error(
+        e,
+        `Error occurred checking permissions of ${issueComment.comment.user.login} in ${
+          repo.full_name
+        }`
+      )
+      return false
+    }
+  }
+
+  public static async getSuiteCheckRuns (
+    context: Context,
+    checkSuiteId: number
+  ): Promise<ReadonlyArray<CheckRunInfo>> {
+    const { owner, repo } = context.repo()
+    try {
+      return await callGitHub(context, true, () =>
+        context.github.paginate(
+          context.github.checks.listForSuite({
+            check_suite_id: checkSuiteId.toString(),
+            owner,
+            per_page: 100,
+            repo
+          }),
+          (res: Octokit.Response<Octokit.ListForSuiteResponse>) => res.data.check_runs
+        )
+      )
+    } catch (e) {
+      context.log.error(e, `Error occurred fetching check runs for check suite ${checkSuiteId}`)
+      return []
+    }
+  }
+
   public static async deleteComment (context: Context, issueComment: IssueComment) {
     const repo = issueComment.repository
     try {
-      await context.github.issues.deleteComment({
-        comment_id: issueComment.comment.id.toString(),
-        owner: repo.owner.login,
-        repo: repo.name
-      })
+      await callGitHub(context, true, () =>
+        context.github.issues.deleteComment({
+          comment_id: issueComment.comment.id.toString(),
+          owner: repo.owner.login,
+          repo: repo.name
+        })
+      )
     } catch (e) {
       context.log.error(
         e,
@@ -28,54 +180,65 @@ export class GitHub {
     }
   }
 
-  public static async getLatestTravisStatus (
+  public static async getLatestStatus (
     context: Context,
-    issueComment: IssueComment
+    issueComment: IssueComment,
+    statusContexts: ReadonlyArray<string>
   ): Promise<StatusInfo | undefined> {
     const repo = issueComment.repository
     try {
-      const pr = (await context.github.pullRequests.get({
-        number: issueComment.issue.number,
-        owner: repo.owner.login,
-        repo: repo.name
-      })).data
+      const pr = (await callGitHub(context, true, () =>
+        context.github.pullRequests.get({
+          number: issueComment.issue.number,
+          owner: repo.owner.login,
+          repo: repo.name
+        })
+      )).data
 
-      if (!pr.head) {
+      const head = pr.head
+      if (!head) {
         return undefined
       }
 
-      let travisStatus: Octokit.GetStatusesResponseItem | undefined
-      await context.github.paginate(
-        context.github.repos.getStatuses({
-          owner: repo.owner.login,
-          per_page: 100,
-          ref: pr.head.sha,
-          repo: repo.name
-        }),
-        ((res: Octokit.Response<Octokit.GetStatusesResponse>, done: () => void) => {
-          for (const status of res.data) {
-            if (status.context === 'continuous-integration/travis-ci/pr') {
-              travisStatus = status
+      // Keep the newest status for each context, preferring contexts listed earlier
+      const latestByContext = new Map<string, Octokit.GetStatusesResponseItem>()
+      await callGitHub(context, true, () =>
+        context.github.paginate(
+          context.github.repos.getStatuses({
+            owner: repo.owner.login,
+            per_page: 100,
+            ref: head.sha,
+            repo: repo.name
+          }),
+          ((res: Octokit.Response<Octokit.GetStatusesResponse>, done: () => void) => {
+            for (const status of res.data) {
+              if (statusContexts.includes(status.context) && !latestByContext.has(status.context)) {
+                latestByContext.set(status.context, status)
+              }
+            }
+            if (latestByContext.has(statusContexts[0])) {
               done()
-              break
             }
-          }
-        }) as any // Type information for this parameter is wrong :(
+          }) as any // Type information for this parameter is wrong :(
+        )
       )
 
-      if (!travisStatus) {
+      const latestStatus = statusContexts
+        .map(c => latestByContext.get(c))
+        .find(s => s !== undefined)
+      if (!latestStatus) {
         return undefined
       }
 
       return {
         repository: repo,
-        sha: pr.head.sha,
-        target_url: travisStatus.target_url
+        sha: head.sha,
+        target_url: latestStatus.target_url
       }
     } catch (e) {
       context.log.error(
         e,
-        `Error occurred fetching latest Travis status for PR ${issueComment.issue.number} in ${
+        `Error occurred fetching latest CI status for PR ${issueComment.issue.number} in ${
           repo.full_name
         }`
       )
@@ -83,25 +246,89 @@ export class GitHub {
     }
   }
 
+  private static readonly ANNOTATION_BATCH_SIZE = 50
+  private static readonly FAILURE_ACTIONS: Array<
+    Octokit.ChecksCreateParamsActions & { identifier: CheckAction }
+  > = [
+    {
+      description: 'Restart this job on the CI system',
+      identifier: 'restart_job',
+      label: 'Restart job'
+    },
+    {
+      description: 'Cancel the rest of the build',
+      identifier: 'cancel_build',
+      label: 'Cancel build'
+    },
+    {
+      description: 'Add the end of the log to this check',
+      identifier: 'show_log',
+      label: 'Show log excerpt'
+    }
+  ]
+  private static readonly ERROR_CHECK_NAME = 'CI Sidecar'
+  private static readonly PENDING_OUTPUT_TITLE = 'Waiting for the log'
+  private static readonly INCOMPLETE_OUTPUT_TITLE = 'Log incomplete'
   private static readonly FINISHED_STATES = ['passed', 'failed', 'errored', 'canceled']
 
   private readonly appId: number
   private readonly buildInfo: BuildInfo
+  // Check run IDs by external ID, for the runs that jobs should be updated in
+  private readonly checkRunIds = new Map<string, string>()
   private readonly client: GitHubAPI
+  private readonly config: SidecarConfig
+  private readonly deferred: string[] = []
+  private readonly failed: string[] = []
   private readonly getJobOutput: GetJobOutputFunc
+  private readonly history?: JobHistory
+  private readonly lastAttempt: boolean
   private readonly log: Logger
+  // Outputs being read ahead of their checks, by job ID
+  private readonly outputs = new Map<string, Promise<object | undefined>>()
+  private outputPending = false
+  private readonly rateLimitKey: string
+  private retryAt = 0
 
   public constructor (
     appId: number,
     context: Context,
     buildInfo: BuildInfo,
-    getJobOutput: GetJobOutputFunc
+    config: SidecarConfig,
+    getJobOutput: GetJobOutputFunc = async () => undefined,
+    history?: JobHistory,
+    // Whether checks whose log is still incomplete are completed without their output for good,
+    // as the build won't be processed again
+    lastAttempt = false
   ) {
     this.appId = appId
     this.buildInfo = buildInfo
     this.client = context.github
+    this.config = config
     this.getJobOutput = getJobOutput
+    this.history = history
+    this.lastAttempt = lastAttempt
     this.log = context.log
+    this.rateLimitKey = getRateLimitKey(context)
+  }
+
+  // Whether any check was completed without output because the job's log was still incomplete
+  public get hasPendingOutput (): boolean {
+    return this.outputPending
+  }
+
+  // Names of the checks that couldn't be created or updated because of rate limits
+  public get deferredChecks (): ReadonlyArray<string> {
+    return this.deferred
+  }
+
+  // Names of the checks that couldn't be created or updated because of other errors
+  public get failedChecks (): ReadonlyArray<string> {
+    return this.failed
+  }
+
+  // Epoch milliseconds from which deferred checks can be created or updated
+  public get deferredUntil (): number | undefined {
+    return this.deferred.length > 0 ? this.retryAt : undefined
   }
 
   public async checksToCreate (newJobs: ReadonlyArray<JobInfo>): Promise<ReadonlyArray<JobInfo>> {
@@ -109,11 +336,20 @@ export class GitHub {
 
     const existingChecks = await this.getExistingChecks()
     for (const current of newJobs) {
-      const existing = existingChecks.find(c => this.isCheckForJob(c, current))
+      const existing = this.findNewestCheck(existingChecks, c => this.isCheckForJob(c, current))
+
+      if (existing && !this.isRerun(existing, current)) {
+        this.checkRunIds.set(this.getExternalId(current), existing.id.toString())
+      } else {
+        this.checkRunIds.delete(this.getExternalId(current))
+      }
+
       if (
         !existing ||
         this.getStatus(current) !== existing.status ||
-        current.name !== existing.name
+        this.getCheckName(current) !== existing.name ||
+        this.isRerun(existing, current) ||
+        (existing.output && existing.output.title === GitHub.PENDING_OUTPUT_TITLE)
       ) {
         create.push(current)
       }
@@ -122,65 +358,467 @@ export class GitHub {
     return create
   }
 
+  // Starts reading the output of every completed job at once, so that waiting for incomplete logs
+  // doesn't add up across jobs. Checks created or updated afterwards use the output read here.
+  public prefetchOutputs (jobs: ReadonlyArray<JobInfo>): void {
+    const completed = jobs.filter(j => this.getStatus(j) === 'completed')
+    for (const job of ([] as JobInfo[]).concat(...completed.map(j => j.jobs || [j]))) {
+      if (this.getConclusion(job) !== 'cancelled' && !this.outputs.has(job.jobId)) {
+        const output = this.getJobOutput(job)
+        // Errors are handled once a check awaits the output
+        output.catch(e => e)
+        this.outputs.set(job.jobId, output)
+      }
+    }
+  }
+
+  // Moves the job's check run through its lifecycle, only creating a check run for jobs that
+  // don't have one yet or have been rerun since theirs completed
+  public async updateCheck (jobInfo: JobInfo): Promise<string | undefined> {
+    const checkRunId = this.checkRunIds.get(this.getExternalId(jobInfo))
+    if (!checkRunId) {
+      return this.createCheck(jobInfo)
+    }
+
+    const payload = this.getChecksCreateParams(jobInfo)
+    if (payload.status === 'completed' && !(await this.addCompletionInfo(payload, jobInfo))) {
+      return undefined
+    }
+
+    // The Checks API adds annotations to those a check run already has, so a completed check run
+    // that is updated again, e.g. by a rescan, keeps the ones it has rather than getting them twice
+    const existing = (await this.getExistingChecks()).find(c => c.id.toString() === checkRunId)
+    const annotated =
+      existing !== undefined &&
+      existing.status === 'completed' &&
+      existing.output.title !== GitHub.PENDING_OUTPUT_TITLE &&
+      existing.output.title !== GitHub.INCOMPLETE_OUTPUT_TITLE
+    const limited = this.limitAnnotations(payload.output)
+    const annotations = annotated ? [] : limited
+    if (payload.output && payload.output.annotations) {
+      payload.output.annotations = annotations.slice(0, GitHub.ANNOTATION_BATCH_SIZE)
+    }
+
+    // The create and update parameter types disagree on the possible conclusions
+    const { conclusion, head_sha, ...rest } = payload
+    const params: Octokit.ChecksUpdateParams = {
+      ...rest,
+      check_run_id: checkRunId,
+      conclusion: conclusion as Octokit.ChecksUpdateParams['conclusion']
+    }
+
+    this.log.debug(`Updating check ${checkRunId} for job ${jobInfo.jobId}`, params)
+    try {
+      await this.call(true, () => this.client.checks.update(params))
+      this.cacheCheckRun(checkRunId, params)
+    } catch (e) {
+      if (e instanceof RateLimitError) {
+        this.defer(params.name, e)
+        return undefined
+      }
+      this.log.error(e, `Error occurred updating check ${checkRunId} for job ${jobInfo.jobId}`)
+      this.recordError('updateCheck', jobInfo, e)
+      this.failed.push(params.name)
+      return undefined
+    }
+
+    if (payload.output && annotations.length > GitHub.ANNOTATION_BATCH_SIZE) {
+      await this.addAnnotations(checkRunId, payload, annotations)
+    }
+
+    return checkRunId
+  }
+
   public async createCheck (jobInfo: JobInfo): Promise<string | undefined> {
     const payload = this.getChecksCreateParams(jobInfo)
-    if (payload.status === 'completed') {
-      await this.addCompletionInfo(payload, jobInfo)
+    if (payload.status === 'completed' && !(await this.addCompletionInfo(payload, jobInfo))) {
+      return undefined
+    }
+
+    // The Checks API accepts a limited number of annotations per request, the rest are added
+    // through updates once the check exists
+    const annotations = this.limitAnnotations(payload.output)
+    if (payload.output && payload.output.annotations) {
+      payload.output.annotations = annotations.slice(0, GitHub.ANNOTATION_BATCH_SIZE)
     }
 
     this.log.debug(`Creating check for job ${jobInfo.jobId}`, payload)
+    let checkRunId: string
     try {
-      const result = await this.client.checks.create(payload)
-      const checkRunId = result.data.id.toString()
+      const result = await this.call(false, () => this.client.checks.create(payload))
+      checkRunId = result.data.id.toString()
+      this.checkRunIds.set(payload.external_id as string, checkRunId)
+      this.cacheCheckRun(checkRunId, payload)
+      metrics.increment('checks_created_total')
       this.log.debug(`Check ${checkRunId} created for job ${jobInfo.jobId}`)
-      return checkRunId
     } catch (e) {
+      if (e instanceof RateLimitError) {
+        this.defer(payload.name, e)
+        return undefined
+      }
       this.log.error(e, `Error occurred creating check for job ${jobInfo.jobId}`)
+      this.recordError('createCheck', jobInfo, e)
+      this.failed.push(payload.name)
+      return undefined
+    }
+
+    if (payload.output && annotations.length > GitHub.ANNOTATION_BATCH_SIZE) {
+      await this.addAnnotations(checkRunId, payload, annotations)
+    }
+
+    return checkRunId
+  }
+
+  // Reports a problem with the build itself (rather than one of its jobs) as a neutral check
+  public async createErrorCheck (title: string, summary: string): Promise<string | undefined> {
+    const externalId = `${this.buildInfo.domain}/${this.buildInfo.id}/error`
+    const existing = (await this.getExistingChecks()).find(c => c.external_id === externalId)
+    if (existing && existing.output.title === title) {
+      this.log.debug(`Error check already reported for build ${this.buildInfo.id}`)
+      return existing.id.toString()
+    }
+
+    const now = new Date().toISOString()
+    const payload: Octokit.ChecksCreateParams = {
+      completed_at: now,
+      conclusion: 'neutral',
+      external_id: externalId,
+      head_sha: this.buildInfo.headSha,
+      name: GitHub.ERROR_CHECK_NAME,
+      output: { summary, title },
+      owner: this.buildInfo.owner,
+      repo: this.buildInfo.repo,
+      started_at: now,
+      status: 'completed'
+    }
+
+    this.log.debug(`Creating error check for build ${this.buildInfo.id}`, payload)
+    try {
+      const result = await this.call(false, () => this.client.checks.create(payload))
+      this.cacheCheckRun(result.data.id.toString(), payload)
+      return result.data.id.toString()
+    } catch (e) {
+      this.log.error(e, `Error occurred creating error check for build ${this.buildInfo.id}`)
+      return undefined
+    }
+  }
+
+  public getCheckName (jobInfo: JobInfo): string {
+    return `${this.config.checkNamePrefix}${jobInfo.name}`
+  }
+
+  public getCheckRunInfo (jobInfo: JobInfo): CheckRunInfo {
+    return {
+      details_url: jobInfo.url,
+      external_id: this.getExternalId(jobInfo),
+      head_sha: this.buildInfo.headSha,
+      name: this.getCheckName(jobInfo)
+    }
+  }
+
+  // Folds jobs that share a check name, such as the jobs of a build matrix, into one job per name.
+  // A group is only completed once all of its jobs are, and then concludes like the least
+  // successful of them.
+  public groupJobs (jobs: ReadonlyArray<JobInfo>): ReadonlyArray<JobInfo> {
+    const groups = new Map<string, JobInfo[]>()
+    for (const job of jobs) {
+      const name = this.getCheckName(job)
+      groups.set(name, [...(groups.get(name) || []), job])
+    }
+
+    return Array.from(groups.values()).map(group => {
+      if (group.length === 1) {
+        return group[0]
+      }
+      const finishedAt = group
+        .map(j => j.finishedAt)
+        .filter(f => f)
+        .sort()
+        .reverse()[0]
+      return {
+        ...group[0],
+        ...this.getGroupState(group),
+        finishedAt,
+        jobId: group.map(j => j.jobId).join(GROUP_ID_SEPARATOR),
+        jobs: group,
+        parser: undefined,
+        startedAt: group.map(j => j.startedAt).sort()[0]
+      }
+    })
+  }
+
+  // Rolls the state of every mirrored job up into a single check, so that branch protection can
+  // require it rather than each job's check
+  public async updateSummaryCheck (jobs: ReadonlyArray<JobInfo>): Promise<string | undefined> {
+    if (jobs.length === 0) {
+      return undefined
+    }
+
+    const status = this.getCombinedStatus(jobs)
+    const payload: Octokit.ChecksCreateParams = {
+      external_id: `${this.buildInfo.domain}/${this.buildInfo.id}/summary`,
+      head_sha: this.buildInfo.headSha,
+      name: this.config.summaryCheckName,
+      output: this.getSummaryOutput(jobs, status),
+      owner: this.buildInfo.owner,
+      repo: this.buildInfo.repo,
+      started_at: jobs.map(j => j.startedAt).sort()[0],
+      status
+    }
+    if (status === 'completed') {
+      payload.conclusion = this.getSummaryConclusion(jobs)
+      payload.completed_at = jobs
+        .map(j => j.finishedAt)
+        .sort()
+        .reverse()[0]
+    }
+
+    const existing = this.findNewestCheck(
+      await this.getExistingChecks(),
+      c => c.external_id === payload.external_id
+    )
+    if (
+      existing &&
+      existing.name === payload.name &&
+      existing.status === payload.status &&
+      (existing.conclusion || undefined) === payload.conclusion &&
+      existing.output.summary === (payload.output as Octokit.ChecksCreateParamsOutput).summary
+    ) {
+      this.log.debug(`Summary check for build ${this.buildInfo.id} is up to date`)
+      return existing.id.toString()
+    }
+
+    try {
+      if (existing && existing.status !== 'completed') {
+        const { conclusion, head_sha, ...rest } = payload
+        this.log.debug(`Updating summary check ${existing.id} for build ${this.buildInfo.id}`)
+        await this.call(true, () =>
+          this.client.checks.update({
+            ...rest,
+            check_run_id: existing.id.toString(),
+            conclusion: conclusion as Octokit.ChecksUpdateParams['conclusion']
+          })
+        )
+        this.cacheCheckRun(existing.id.toString(), payload)
+        return existing.id.toString()
+      }
+
+      this.log.debug(`Creating summary check for build ${this.buildInfo.id}`, payload)
+      const result = await this.call(false, () => this.client.checks.create(payload))
+      this.cacheCheckRun(result.data.id.toString(), payload)
+      return result.data.id.toString()
+    } catch (e) {
+      if (e instanceof RateLimitError) {
+        this.defer(payload.name, e)
+        return undefined
+      }
+      this.log.error(e, `Error occurred updating summary check for build ${this.buildInfo.id}`)
+      this.failed.push(payload.name)
       return undefined
     }
   }
 
-  private async getExistingChecks (): Promise<
-    ReadonlyArray<Octokit.ListForRefResponseCheckRunsItem>
-  > {
+  // Stands in for a check that was rerun from GitHub until the CI system reports on the job again
+  public async createQueuedCheck (checkRun: CheckRunInfo): Promise<string | undefined> {
+    const payload: Octokit.ChecksCreateParams = {
+      details_url: checkRun.details_url,
+      external_id: checkRun.external_id,
+      head_sha: checkRun.head_sha,
+      name: checkRun.name,
+      owner: this.buildInfo.owner,
+      repo: this.buildInfo.repo,
+      status: 'queued'
+    }
+
+    this.log.debug(`Creating queued check for ${checkRun.external_id}`, payload)
+    try {
+      const result = await this.call(false, () => this.client.checks.create(payload))
+      this.cacheCheckRun(result.data.id.toString(), payload)
+      return result.data.id.toString()
+    } catch (e) {
+      this.log.error(e, `Error occurred creating queued check for ${checkRun.external_id}`)
+      return undefined
+    }
+  }
+
+  // Replaces the check's text with the last `logExcerptLines` lines of the job's log
+  public async addLogExcerpt (checkRun: CompletedCheckRunInfo, log: string): Promise<void> {
+    // Progress output rewrites lines with carriage returns, only the final text is kept
+    const lines = stripAnsi(log)
+      .replace(/\s+$/, '')
+      .split(/\r?\n/)
+      .map(l => l.substr(l.lastIndexOf('\r') + 1))
+    const count = Math.min(lines.length, this.config.logExcerptLines)
+    const prefix = `**Last ${count} lines of the log**\n\n\`\`\`\n`
+    const suffix = '\n```'
+    const excerpt = lines.slice(-count).join('\n')
+    const text = `${prefix}${excerpt.substr(
+      -(MAX_TEXT_LENGTH - prefix.length - suffix.length)
+    )}${suffix}`
+
+    const params: Octokit.ChecksUpdateParams = {
+      check_run_id: checkRun.id.toString(),
+      name: checkRun.name,
+      output: {
+        summary: checkRun.output.summary || 'The job failed.',
+        text,
+        title: checkRun.output.title || checkRun.name
+      },
+      owner: this.buildInfo.owner,
+      repo: this.buildInfo.repo
+    }
+
+    this.log.debug(`Adding log excerpt to check ${checkRun.id}`)
+    try {
+      await this.call(true, () => this.client.checks.update(params))
+      this.cacheCheckRun(params.check_run_id, params)
+    } catch (e) {
+      this.log.error(e, `Error occurred adding log excerpt to check ${checkRun.id}`)
+    }
+  }
+
+  private call<T> (idempotent: boolean, request: () => Promise<T>): Promise<T> {
+    return rateLimiter.run(this.rateLimitKey, this.log, idempotent, request)
+  }
+
+  // Remembers a check that couldn't be created or updated, so that the build can be processed
+  // again once the rate limit has reset
+  private defer (checkName: string, error: RateLimitError): void {
+    this.log.warn(`Deferring check '${checkName}' of build ${this.buildInfo.id}: ${error.message}`)
+    metrics.increment('checks_deferred_total')
+    this.deferred.push(checkName)
+    this.retryAt = Math.max(this.retryAt, error.retryAt)
+  }
+
+  // Keeps the error for the admin routes, which list the errors that occurred recently
+  private recordError (operation: string, jobInfo: JobInfo, error: Error): void {
+    recentErrors.add({
+      buildId: this.buildInfo.id,
+      jobId: jobInfo.jobId,
+      message: error.message,
+      occurredAt: new Date().toISOString(),
+      operation,
+      repo: `${this.buildInfo.owner}/${this.buildInfo.repo}`
+    })
+  }
+
+  private async getExistingChecks (): Promise<ReadonlyArray<ExistingCheckRun>> {
+    const key = this.getCacheKey()
+    const cached = checkRunCache.get(key)
+    if (cached && cached.fresh) {
+      return cached.value
+    }
+
     this.log.debug(`Fetching existing checks for build ${this.buildInfo.id}`)
+    const params: Octokit.ChecksListForRefParams & { headers?: object } = {
+      headers: cached && cached.etag ? { 'If-None-Match': cached.etag } : undefined,
+      owner: this.buildInfo.owner,
+      per_page: 100,
+      ref: this.buildInfo.headSha,
+      repo: this.buildInfo.repo
+    }
     try {
-      const myChecks: ReadonlyArray<
-        Octokit.ListForRefResponseCheckRunsItem
-      > = await this.client.paginate(
-        this.client.checks.listForRef({
-          owner: this.buildInfo.owner,
-          per_page: 100,
-          ref: this.buildInfo.headSha,
-          repo: this.buildInfo.repo
-        }),
-        (res: Octokit.Response<Octokit.ListForRefResponse>) => {
-          return res.data.check_runs.filter(c => c.app.id === this.appId)
-        }
+      const firstPage = await this.call(true, () => this.client.checks.listForRef(params))
+      const myChecks: ReadonlyArray<ExistingCheckRun> = await this.call(true, () =>
+        this.client.paginate(
+          Promise.resolve(firstPage),
+          (res: Octokit.Response<Octokit.ListForRefResponse>) => {
+            return res.data.check_runs.filter(c => c.app.id === this.appId)
+          }
+        )
       )
 
       this.log.debug(`Fetched ${myChecks.length} existing checks for build ${this.buildInfo.id}`)
+      checkRunCache.set(key, myChecks, firstPage.headers.etag)
       return myChecks
     } catch (e) {
+      if (cached && e.code === 304) {
+        checkRunCache.revalidate(key)
+        return cached.value
+      }
       this.log.error(e, `Error occurred fetching existing checks for build ${this.buildInfo.id}`)
       return []
     }
   }
 
-  private isCheckForJob (c: Octokit.ListForRefResponseCheckRunsItem, j: JobInfo): boolean {
-    if (!c.external_id) {
+  // Keeps the cached check runs of the commit in step with a change Sidecar made to one of them
+  private cacheCheckRun (checkRunId: string, change: CheckRunChange): void {
+    const id = parseInt(checkRunId, 10)
+    checkRunCache.update(this.getCacheKey(), checkRuns => {
+      const current = checkRuns.find(c => c.id === id)
+      const externalId = change.external_id || (current && current.external_id)
+      const name = change.name || (current && current.name)
+      if (!externalId || !name) {
+        return checkRuns
+      }
+
+      const output = change.output || (current && current.output) || {}
+      const checkRun: ExistingCheckRun = {
+        completed_at: change.completed_at || (current && current.completed_at),
+        conclusion: change.conclusion || (current && current.conclusion),
+        external_id: externalId,
+        id,
+        name,
+        output: { summary: output.summary, title: output.title },
+        status: change.status || (current ? current.status : 'queued')
+      }
+      return [...checkRuns.filter(c => c !== current), checkRun]
+    })
+  }
+
+  private getCacheKey (): string {
+    const { headSha, owner, repo } = this.buildInfo
+    return `${this.appId}/${owner}/${repo}/${headSha}`
+  }
+
+  // Reruns add a check run with the same external ID, the newest one reflects the current state
+  private findNewestCheck (
+    checks: ReadonlyArray<ExistingCheckRun>,
+    predicate: (c: ExistingCheckRun) => boolean
+  ): ExistingCheckRun | undefined {
+    return checks
+      .filter(predicate)
+      .reduce<ExistingCheckRun | undefined>(
+        (newest, c) => (newest && newest.id > c.id ? newest : c),
+        undefined
+      )
+  }
+
+  private isCheckForJob (c: ExistingCheckRun, j: JobInfo): boolean {
+    const id = GitHub.parseExternalId(c.external_id)
+    return (
+      id !== undefined &&
+      this.buildInfo.domain === id.domain &&
+      this.buildInfo.id === id.buildId &&
+      j.jobId === id.jobId
+    )
+  }
+
+  // A completed check run can't be moved back to queued, so a job that is running again or has
+  // finished at a different time than its check run has been rerun and needs a new check run
+  private isRerun (c: ExistingCheckRun, j: JobInfo): boolean {
+    if (c.status !== 'completed') {
       return false
     }
-    const [domain, buildId, jobId] = c.external_id.split('/')
-    return this.buildInfo.domain === domain && this.buildInfo.id === buildId && j.jobId === jobId
+    if (this.getStatus(j) !== 'completed') {
+      return true
+    }
+
+    // GitHub stores timestamps with second precision
+    const seconds = (timestamp: string) => Math.floor(Date.parse(timestamp) / 1000)
+    return seconds(c.completed_at || '') !== seconds(j.finishedAt)
+  }
+
+  private getExternalId (jobInfo: JobInfo): string {
+    return `${this.buildInfo.domain}/${this.buildInfo.id}/${jobInfo.jobId}`
   }
 
   private getChecksCreateParams (jobInfo: JobInfo): Octokit.ChecksCreateParams {
     return {
       details_url: jobInfo.url,
-      external_id: `${this.buildInfo.domain}/${this.buildInfo.id}/${jobInfo.jobId}`,
+      external_id: this.getExternalId(jobInfo),
       head_sha: this.buildInfo.headSha,
-      name: jobInfo.name,
+      name: this.getCheckName(jobInfo),
       owner: this.buildInfo.owner,
       repo: this.buildInfo.repo,
       started_at: jobInfo.startedAt,
@@ -188,28 +826,215 @@ export class GitHub {
     }
   }
 
+  private limitAnnotations (
+    output: Octokit.ChecksCreateParamsOutput | undefined
+  ): Octokit.ChecksCreateParamsOutputAnnotations[] {
+    if (!output || !output.annotations) {
+      return []
+    }
+
+    const total = output.annotations.length
+    const limit = this.config.annotationLimit
+    if (total <= limit) {
+      return output.annotations
+    }
+
+    const omitted = total - limit
+    const note = `_Showing ${limit} of ${total} annotations, the remaining ${omitted} were omitted._`
+    output.summary = output.summary ? `${output.summary}\n\n${note}` : note
+    return output.annotations.slice(0, limit)
+  }
+
+  private async addAnnotations (
+    checkRunId: string,
+    payload: Octokit.ChecksCreateParams,
+    annotations: Octokit.ChecksCreateParamsOutputAnnotations[]
+  ): Promise<void> {
+    const output = payload.output as Octokit.ChecksCreateParamsOutput
+    const batchSize = GitHub.ANNOTATION_BATCH_SIZE
+    for (let i = batchSize; i < annotations.length; i += batchSize) {
+      const batch = annotations.slice(i, i + batchSize)
+      this.log.debug(`Adding ${batch.length} annotations to check ${checkRunId}`)
+      try {
+        // Annotations are appended, so repeating the update would add them twice
+        await this.call(false, () =>
+          this.client.checks.update({
+            check_run_id: checkRunId,
+            name: payload.name,
+            output: { annotations: batch, summary: output.summary, title: output.title },
+            owner: this.buildInfo.owner,
+            repo: this.buildInfo.repo
+          })
+        )
+      } catch (e) {
+        this.log.error(
+          e,
+          `Error occurred adding annotations ${i + 1}-${i + batch.length} to check ${checkRunId}`
+        )
+        return
+      }
+    }
+  }
+
+  // Returns false if the job's log couldn't be read because of a rate limit, in which case the
+  // check is deferred rather than completed without its output
   private async addCompletionInfo (
     payload: Octokit.ChecksCreateParams,
     jobInfo: JobInfo
-  ): Promise<void> {
+  ): Promise<boolean> {
     payload.conclusion = this.getConclusion(jobInfo)
     payload.completed_at = jobInfo.finishedAt
+    if (payload.conclusion === 'failure') {
+      // A group has a log per job, so there is no single log to show an excerpt of
+      payload.actions = jobInfo.jobs
+        ? GitHub.FAILURE_ACTIONS.filter(a => a.identifier !== 'show_log')
+        : GitHub.FAILURE_ACTIONS
+    }
 
+    const historyNote = this.recordHistory(jobInfo, payload.conclusion)
     if (payload.conclusion === 'cancelled') {
-      return
+      return true
     }
 
     try {
-      const output = await this.getJobOutput(jobInfo)
+      const output = jobInfo.jobs
+        ? await this.getGroupOutput(jobInfo.jobs)
+        : await this.readOutput(jobInfo)
       if (output) {
         payload.output = output as Octokit.ChecksCreateParamsOutput
       }
+      if (historyNote) {
+        payload.output = this.addHistoryNote(payload.output, jobInfo, historyNote)
+      }
     } catch (e) {
+      if (e instanceof LogIncompleteError && this.lastAttempt) {
+        this.log.warn(`${e.message}, giving up on its output`)
+        payload.output = {
+          summary: `The job's log was still incomplete when Sidecar last tried to read it, so its output is missing. Rescanning the check with \`${
+            this.config.commandPrefix
+          } rescan ${payload.name}\` tries again.`,
+          title: GitHub.INCOMPLETE_OUTPUT_TITLE
+        }
+        return true
+      }
+      if (e instanceof LogIncompleteError) {
+        this.log.info(`${e.message}, output will be added later`)
+        this.outputPending = true
+        payload.output = {
+          summary: "The job's log wasn't complete yet, its output will be added once it is.",
+          title: GitHub.PENDING_OUTPUT_TITLE
+        }
+        return true
+      }
+      if (e instanceof RateLimitError) {
+        this.defer(this.getCheckName(jobInfo), e)
+        return false
+      }
       this.log.error(
         e,
         `Error occurred while getting job output for job ${jobInfo.jobId}, output will be skipped`
       )
+      this.recordError('getJobOutput', jobInfo, e)
     }
+    return true
+  }
+
+  // Combines the output of a group's jobs, with a breakdown of the jobs ahead of their text
+  private readOutput (jobInfo: JobInfo): Promise<object | undefined> {
+    return this.outputs.get(jobInfo.jobId) || this.getJobOutput(jobInfo)
+  }
+
+  private async getGroupOutput (
+    jobs: ReadonlyArray<JobInfo>
+  ): Promise<Octokit.ChecksCreateParamsOutput> {
+    const outputs: Array<[JobInfo, Octokit.ChecksCreateParamsOutput]> = []
+    for (const job of jobs) {
+      if (this.getConclusion(job) !== 'cancelled') {
+        const jobOutput = await this.readOutput(job)
+        if (jobOutput) {
+          outputs.push([job, jobOutput as Octokit.ChecksCreateParamsOutput])
+        }
+      }
+    }
+
+    const breakdown = this.getSummaryOutput(jobs, 'completed', j => `Job ${j.jobId}`)
+    const summaries = outputs
+      .filter(([, o]) => o.summary)
+      .map(([j, o]) => (outputs.length > 1 ? `#### Job ${j.jobId}\n\n${o.summary}` : o.summary))
+    const texts = outputs.map(([, o]) => o.text).filter(t => t)
+    const output: Octokit.ChecksCreateParamsOutput = {
+      summary: (summaries.join('\n\n') || breakdown.title).substr(0, MAX_TEXT_LENGTH),
+      text: [breakdown.summary, ...texts].join('\n\n').substr(0, MAX_TEXT_LENGTH),
+      title: outputs.length === 1 ? outputs[0][1].title : breakdown.title
+    }
+
+    const annotations = outputs.reduce(
+      (all, [, o]) => [...all, ...(o.annotations || [])],
+      [] as Octokit.ChecksCreateParamsOutputAnnotations[]
+    )
+    const images = outputs.reduce(
+      (all, [, o]) => [...all, ...(o.images || [])],
+      [] as Octokit.ChecksCreateParamsOutputImages[]
+    )
+    if (annotations.length > 0) {
+      output.annotations = annotations
+    }
+    if (images.length > 0) {
+      output.images = images
+    }
+    return output
+  }
+
+  // Adds the job to the history, returning how it compares to the step's earlier builds
+  private recordHistory (jobInfo: JobInfo, conclusion: string): string | undefined {
+    if (!this.history) {
+      return undefined
+    }
+
+    const { domain, headSha, id, owner, repo } = this.buildInfo
+    const duration = Date.parse(jobInfo.finishedAt) - Date.parse(jobInfo.startedAt)
+    const { historyBranch, historyLength } = this.config
+    // A history that can't be read leaves the check without a note rather than without output
+    let stats: StepStats | undefined
+    try {
+      stats = this.history.getStepStats(
+        `${owner}/${repo}`,
+        jobInfo.name,
+        historyBranch,
+        historyLength,
+        jobInfo.finishedAt
+      )
+      this.history.record({
+        branch: jobInfo.branch,
+        buildId: id,
+        conclusion,
+        domain,
+        duration: isNaN(duration) ? 0 : Math.max(duration, 0),
+        finishedAt: jobInfo.finishedAt,
+        headSha,
+        jobId: jobInfo.jobId,
+        name: jobInfo.name,
+        repo: `${owner}/${repo}`
+      })
+    } catch (e) {
+      this.log.error(e, `Error occurred recording history of job ${jobInfo.jobId}`)
+    }
+
+    return stats && historyLength > 0 && !isNaN(duration)
+      ? getHistoryNote(stats, historyBranch, duration)
+      : undefined
+  }
+
+  private addHistoryNote (
+    output: Octokit.ChecksCreateParamsOutput | undefined,
+    jobInfo: JobInfo,
+    note: string
+  ): Octokit.ChecksCreateParamsOutput {
+    if (!output) {
+      return { summary: note, title: this.getCheckName(jobInfo) }
+    }
+    const summary = output.summary.substr(0, MAX_TEXT_LENGTH - note.length - 2)
+    return { ...output, summary: `${summary}\n\n${note}` }
   }
 
   private getStatus (jobInfo: JobInfo) {
@@ -233,4 +1058,101 @@ export class GitHub {
       return 'neutral'
     }
   }
+
+  // Completed once every job is, queued while none has started
+  private getCombinedStatus (jobs: ReadonlyArray<JobInfo>) {
+    const statuses = jobs.map(j => this.getStatus(j))
+    if (statuses.every(s => s === 'completed')) {
+      return 'completed'
+    } else if (statuses.every(s => s === 'queued')) {
+      return 'queued'
+    } else {
+      return 'in_progress'
+    }
+  }
+
+  // The state of a group of jobs: that of its least successful job once all are completed,
+  // otherwise one that maps to the group's combined status
+  private getGroupState (jobs: ReadonlyArray<JobInfo>): Pick<JobInfo, 'ignoreFailure' | 'state'> {
+    const status = this.getCombinedStatus(jobs)
+    if (status === 'completed') {
+      const rank = ['success', 'neutral', 'cancelled', 'failure']
+      const worst = jobs.reduce(
+        (a, b) =>
+          rank.indexOf(this.getConclusion(b)) > rank.indexOf(this.getConclusion(a)) ? b : a
+      )
+      return { ignoreFailure: worst.ignoreFailure, state: worst.state }
+    }
+    return {
+      ignoreFailure: jobs.every(j => j.ignoreFailure),
+      state: status === 'queued' ? jobs[0].state : 'started'
+    }
+  }
+
+  // Errored jobs, e.g. ones whose install step failed, only get a neutral check of their own but
+  // still fail the build, so that a required summary check doesn't let them through
+  private failsBuild (jobInfo: JobInfo): boolean {
+    return ['failed', 'errored'].includes(jobInfo.state) && !jobInfo.ignoreFailure
+  }
+
+  private getSummaryConclusion (jobs: ReadonlyArray<JobInfo>) {
+    const conclusions = jobs.map(j => this.getConclusion(j))
+    if (jobs.some(j => this.failsBuild(j))) {
+      return 'failure'
+    } else if (conclusions.includes('cancelled')) {
+      return 'cancelled'
+    } else {
+      return 'success'
+    }
+  }
+
+  private getSummaryOutput (
+    jobs: ReadonlyArray<JobInfo>,
+    status: string,
+    getLabel = (jobInfo: JobInfo) => this.getCheckName(jobInfo)
+  ): Octokit.ChecksCreateParamsOutput {
+    const failed = jobs.filter(j => this.failsBuild(j)).length
+    const finished = jobs.filter(j => this.getStatus(j) === 'completed').length
+
+    let title
+    if (status !== 'completed') {
+      title = `${finished} of ${jobs.length} jobs finished`
+    } else if (failed > 0) {
+      title = `${failed} of ${jobs.length} jobs failed`
+    } else if (this.getSummaryConclusion(jobs) === 'cancelled') {
+      title = 'Build cancelled'
+    } else {
+      title = `${jobs.length} jobs succeeded`
+    }
+
+    const rows = jobs.map(j => {
+      const state = j.state === 'failed' && j.ignoreFailure ? 'failed (allowed)' : j.state
+      return `| [${getLabel(j).replace(/\|/g, '\\|')}](${j.url}) | ${state} | ${this.getDuration(
+        j
+      )} |`
+    })
+    return {
+      summary: ['| Job | State | Duration |', '| --- | --- | --- |', ...rows].join('\n'),
+      title
+    }
+  }
+
+  private getDuration (jobInfo: JobInfo): string {
+    if (this.getStatus(jobInfo) !== 'completed') {
+      return jobInfo.state === 'started' ? 'running' : '-'
+    }
+
+    const duration = Date.parse(jobInfo.finishedAt) - Date.parse(jobInfo.startedAt)
+    return isNaN(duration) || duration < 0 ? '-' : formatDuration(duration)
+  }
+}
+
+// GitHub's rate limits apply per installation
+function getRateLimitKey (context: Context): string {
+  const installation = context.payload && context.payload.installation
+  return `github/${installation ? installation.id : 'app'}`
+}
+
+function callGitHub<T> (context: Context, idempotent: boolean, request: () => Promise<T>) {
+  return rateLimiter.run(getRateLimitKey(context), context.log, idempotent, request)
 }
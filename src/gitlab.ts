@@ -0,0 +1,364 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import yaml from 'js-yaml'
+import { Context, Logger } from 'probot'
+import { Headers } from 'request'
+import request from 'request-promise-native'
+import { URL } from 'url'
+
+import {
+  AuthorizationError,
+  BuildInfo,
+  CIBuild,
+  CIProvider,
+  interpolateName,
+  JobInfo,
+  REQUEST_TIMEOUT,
+  StatusInfo
+} from './ci'
+import { SidecarConfig } from './config'
+import { scanForOutput, waitForOutput } from './output'
+import { parseLog } from './parsers'
+
+// https://docs.gitlab.com/ee/api/jobs.html
+interface GitLabJob {
+  readonly allow_failure: boolean
+  readonly finished_at: string | null
+  readonly id: number
+  readonly name: string
+  readonly stage?: string
+  readonly started_at: string | null
+  readonly status: string
+  readonly web_url: string
+}
+
+// https://docs.gitlab.com/ee/api/pipelines.html
+interface GitLabPipeline {
+  readonly ref: string
+  readonly source: string
+}
+
+interface GitLabCIJobConfig {
+  readonly extends?: string | ReadonlyArray<string>
+  readonly variables?: { readonly [name: string]: string }
+}
+
+interface GitLabCIConfig {
+  readonly [name: string]: GitLabCIJobConfig | undefined
+}
+
+export interface GitLabOptions {
+  // Base URLs of the GitLab instances to accept statuses from, e.g. https://gitlab.example.com
+  readonly baseUrls: ReadonlyArray<string>
+  readonly token?: string
+}
+
+// Maps GitLab pipeline sources onto the Travis event types used in the `events` setting
+const EVENT_MAP: { readonly [source: string]: string } = {
+  api: 'api',
+  merge_request_event: 'pull_request',
+  push: 'push',
+  schedule: 'cron',
+  trigger: 'api',
+  web: 'api'
+}
+
+// Maps GitLab job states onto the Travis-style states understood by GitHub.getStatus
+const STATE_MAP: { readonly [status: string]: string } = {
+  canceled: 'canceled',
+  failed: 'failed',
+  running: 'started',
+  skipped: 'canceled',
+  success: 'passed'
+}
+
+export class GitLab implements CIBuild {
+  public static parseStatus (
+    payload: StatusInfo,
+    baseUrls: ReadonlyArray<string>
+  ): BuildInfo | undefined {
+    try {
+      const {
+        repository: {
+          name: repoName,
+          owner: { login: repoOwner }
+        },
+        sha: headSha,
+        target_url: targetUrl
+      } = payload
+
+      if (!targetUrl) {
+        return undefined
+      }
+
+      const baseUrl = baseUrls.find(u => targetUrl.startsWith(`${u}/`))
+      if (!baseUrl) {
+        return undefined
+      }
+
+      const match = /^\/(.+?)(?:\/-)?\/pipelines\/(\d+)/.exec(targetUrl.substr(baseUrl.length))
+      if (!match) {
+        return undefined
+      }
+
+      return {
+        domain: new URL(baseUrl).host.toLowerCase(),
+        headSha,
+        id: match[2],
+        owner: repoOwner,
+        project: match[1],
+        repo: repoName
+      }
+    } catch (e) {
+      return undefined
+    }
+  }
+
+  // Check runs link to the web pages of their jobs, e.g. `/group/project/-/jobs/11`
+  public static parseProject (
+    detailsUrl: string,
+    baseUrls: ReadonlyArray<string>
+  ): string | undefined {
+    const baseUrl = baseUrls.find(u => detailsUrl.startsWith(`${u}/`))
+    if (!baseUrl) {
+      return undefined
+    }
+
+    const match = /^\/(.+?)(?:\/-)?\/(?:jobs|pipelines)\/\d+/.exec(
+      detailsUrl.substr(baseUrl.length)
+    )
+    return match ? match[1] : undefined
+  }
+
+  private readonly buildInfo: BuildInfo
+  private readonly config: SidecarConfig
+  private readonly headers: Headers
+  private readonly log: Logger
+  private readonly project: string
+  private readonly projectUri: string
+
+  public constructor (
+    context: Context,
+    buildInfo: BuildInfo,
+    config: SidecarConfig,
+    baseUrl: string,
+    token?: string
+  ) {
+    this.project = buildInfo.project || `${buildInfo.owner}/${buildInfo.repo}`
+    this.buildInfo = buildInfo
+    this.config = config
+    this.headers = token ? { 'PRIVATE-TOKEN': token } : {}
+    this.log = context.log
+    this.projectUri = `${baseUrl}/api/v4/projects/${encodeURIComponent(this.project)}`
+  }
+
+  public async getSupportedJobs (): Promise<ReadonlyArray<JobInfo> | undefined> {
+    const pipelineUri = `${this.projectUri}/pipelines/${this.buildInfo.id}`
+    const jobsUri = `${pipelineUri}/jobs?per_page=100`
+
+    const pipeline = (await request({
+      headers: this.headers,
+      json: true,
+      timeout: REQUEST_TIMEOUT,
+      uri: pipelineUri
+    }).promise()) as GitLabPipeline
+
+    const eventType = EVENT_MAP[pipeline.source] || pipeline.source
+    if (!this.config.events.includes(eventType)) {
+      this.log.info(`Pipeline for source '${pipeline.source}' will not be processed`)
+      return undefined
+    }
+
+    const [jobs, config] = await Promise.all([
+      request({
+        headers: this.headers,
+        json: true,
+        timeout: REQUEST_TIMEOUT,
+        uri: jobsUri
+      }).promise() as Promise<ReadonlyArray<GitLabJob>>,
+      this.getCIConfig()
+    ])
+
+    const supported: JobInfo[] = []
+    for (const job of jobs) {
+      const template = this.extractVariable(config, job.name, this.config.checkNameVariable)
+      if (template) {
+        // Names may include the job's other variables and the ones GitLab sets for its stage
+        const builtIn: { [name: string]: string | undefined } = {
+          CI_JOB_NAME: job.name,
+          CI_JOB_STAGE: job.stage
+        }
+        const jobName = interpolateName(
+          template,
+          name => builtIn[name] || this.extractVariable(config, job.name, name)
+        )
+        this.log.debug(`Detected Job '${jobName}' in state '${job.status}'`)
+        const parser = this.extractVariable(config, job.name, this.config.checkParserVariable)
+        const branch = eventType === 'push' ? pipeline.ref : undefined
+        supported.push(this.getJobInfo(job, jobName, parser, branch))
+      }
+    }
+    return supported
+  }
+
+  public async getJobOutput (jobInfo: JobInfo): Promise<object | undefined> {
+    return waitForOutput(this.log, jobInfo.jobId, this.config.outputTimeout * 1000, () =>
+      this.getJobOutputImpl(jobInfo)
+    )
+  }
+
+  public async getJobLog (jobId: string): Promise<string> {
+    this.log.debug(`Getting trace for job ${jobId}`)
+    return (await request({
+      headers: this.headers,
+      timeout: REQUEST_TIMEOUT,
+      uri: `${this.projectUri}/jobs/${jobId}/trace`
+    }).promise()) as string
+  }
+
+  public async cancelBuild (): Promise<void> {
+    await this.post(
+      `pipelines/${this.buildInfo.id}/cancel`,
+      `cancelling pipeline ${this.buildInfo.id}`
+    )
+  }
+
+  public async restartBuild (): Promise<void> {
+    await this.post(
+      `pipelines/${this.buildInfo.id}/retry`,
+      `retrying pipeline ${this.buildInfo.id}`
+    )
+  }
+
+  public async restartJob (jobId: string): Promise<void> {
+    await this.post(`jobs/${jobId}/retry`, `retrying job ${jobId}`)
+  }
+
+  private async getJobOutputImpl (jobInfo: JobInfo): Promise<object | undefined> {
+    const jobId = jobInfo.jobId
+    const trace = await this.getJobLog(jobId)
+
+    const workingDirectory = `/builds/${this.project}`
+    const output = await scanForOutput(this.log, jobId, trace, {
+      buildInfo: this.buildInfo,
+      fence: this.config.outputFence,
+      workingDirectory
+    })
+    if (output || !jobInfo.parser) {
+      return output
+    }
+
+    this.log.debug(`No fenced output for job ${jobId}, parsing trace with '${jobInfo.parser}'`)
+    return parseLog(jobInfo.parser, trace, this.buildInfo, workingDirectory)
+  }
+
+  // `action` describes the request for logs and error messages, e.g. "retrying job 123"
+  private async post (resource: string, action: string): Promise<void> {
+    this.log.info(`${action[0].toUpperCase()}${action.substr(1)} in ${this.project}`)
+    try {
+      await request({
+        headers: this.headers,
+        json: true,
+        method: 'POST',
+        timeout: REQUEST_TIMEOUT,
+        uri: `${this.projectUri}/${resource}`
+      }).promise()
+    } catch (e) {
+      if ([401, 403].includes(e.statusCode)) {
+        throw new AuthorizationError(
+          `${this.buildInfo.domain} refused ${action} in ${
+            this.project
+          }. Check that GITLAB_TOKEN is set and can run pipelines in this project.`
+        )
+      }
+      throw e
+    }
+  }
+
+  private async getCIConfig (): Promise<GitLabCIConfig> {
+    const configUri = `${this.projectUri}/repository/files/.gitlab-ci.yml/raw?ref=${
+      this.buildInfo.headSha
+    }`
+    const content = (await request({
+      headers: this.headers,
+      timeout: REQUEST_TIMEOUT,
+      uri: configUri
+    }).promise()) as string
+
+    return (yaml.safeLoad(content) || {}) as GitLabCIConfig
+  }
+
+  private getJobInfo (job: GitLabJob, jobName: string, parser?: string, branch?: string): JobInfo {
+    return {
+      branch,
+      finishedAt: job.finished_at || new Date().toISOString(),
+      ignoreFailure: job.allow_failure,
+      jobId: job.id.toString(),
+      name: jobName,
+      parser,
+      startedAt: job.started_at || new Date().toISOString(),
+      state: STATE_MAP[job.status] || 'created',
+      url: job.web_url
+    }
+  }
+
+  private extractVariable (
+    config: GitLabCIConfig,
+    jobName: string,
+    variable: string,
+    seen: ReadonlyArray<string> = []
+  ): string | undefined {
+    const jobConfig = config[jobName]
+    if (!jobConfig || seen.includes(jobName)) {
+      return undefined
+    }
+
+    const variables = jobConfig.variables || {}
+    if (variables[variable]) {
+      return variables[variable].toString()
+    }
+
+    // Later entries in `extends` take precedence, so search them first
+    const parents = typeof jobConfig.extends === 'string' ? [jobConfig.extends] : jobConfig.extends
+    for (const parent of [...(parents || [])].reverse()) {
+      const value = this.extractVariable(config, parent, variable, [...seen, jobName])
+      if (value) {
+        return value
+      }
+    }
+
+    return undefined
+  }
+}
+
+export function createGitLabProvider (options: GitLabOptions): CIProvider {
+  const baseUrls = options.baseUrls.map(u => u.replace(/\/+$/, ''))
+
+  return {
+    domains: baseUrls.map(u => new URL(u).host.toLowerCase()),
+    name: 'gitlab',
+    restartKeepsJobIds: false,
+    statusContexts: baseUrls.map(u => `ci/gitlab/${new URL(u).host}`),
+
+    createBuild (context: Context, buildInfo: BuildInfo, config: SidecarConfig): CIBuild {
+      const baseUrl = baseUrls.find(u => new URL(u).host.toLowerCase() === buildInfo.domain)
+      if (!baseUrl) {
+        throw new Error(`No GitLab instance configured for ${buildInfo.domain}`)
+      }
+      return new GitLab(context, buildInfo, config, baseUrl, options.token)
+    },
+
+    forgetBuild (_: BuildInfo): void {
+      // Pipelines aren't cached
+    },
+
+    parseProject (detailsUrl: string): string | undefined {
+      return GitLab.parseProject(detailsUrl, baseUrls)
+    },
+
+    parseStatus (status: StatusInfo): BuildInfo | undefined {
+      return GitLab.parseStatus(status, baseUrls)
+    }
+  }
+}
@@ -0,0 +1,155 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { ListStore } from './store'
+
+// A completed job, as recorded when its check is completed
+export interface JobRecord {
+  // Branch of push builds, the history of other builds isn't compared against
+  readonly branch?: string
+  readonly buildId: string
+  readonly conclusion: string
+  readonly domain: string
+  // Milliseconds
+  readonly duration: number
+  readonly finishedAt: string
+  readonly headSha: string
+  readonly jobId: string
+  readonly name: string
+  // `owner/repo`
+  readonly repo: string
+}
+
+export interface StepStats {
+  readonly builds: number
+  readonly failures: number
+  // Milliseconds, undefined if there are no builds
+  readonly medianDuration?: number
+  readonly name: string
+}
+
+export type HistoryStore = ListStore<JobRecord>
+
+// Records kept per step of a repository, older ones are dropped
+const MAX_RECORDS_PER_STEP = 200
+
+// Keeps the results of completed jobs so that flaky steps can be spotted. Records are kept in
+// memory and written to the store as they are added.
+export class JobHistory {
+  private records?: JobRecord[]
+  private readonly store: HistoryStore
+
+  public constructor (store: HistoryStore) {
+    this.store = store
+  }
+
+  // Adds a job's result, replacing an earlier record of the same run of the job
+  public record (record: JobRecord): void {
+    const records = this.load().filter(
+      r =>
+        !(
+          r.domain === record.domain &&
+          r.jobId === record.jobId &&
+          r.finishedAt === record.finishedAt
+        )
+    )
+    records.push(record)
+
+    const step = records.filter(r => r.repo === record.repo && r.name === record.name)
+    if (step.length > MAX_RECORDS_PER_STEP) {
+      const dropped = new Set(sortNewestFirst(step).slice(MAX_RECORDS_PER_STEP))
+      this.records = records.filter(r => !dropped.has(r))
+    } else {
+      this.records = records
+    }
+    this.store.save(this.records)
+  }
+
+  // Statistics of the step's last `count` builds on `branch`, only counting builds that finished
+  // before `before` if given
+  public getStepStats (
+    repo: string,
+    name: string,
+    branch: string,
+    count: number,
+    before?: string
+  ): StepStats {
+    const end = before ? Date.parse(before) : Infinity
+    const records = this.load().filter(
+      r =>
+        r.repo === repo &&
+        r.name === name &&
+        r.branch === branch &&
+        // Cancelled jobs say nothing about the step
+        r.conclusion !== 'cancelled' &&
+        Date.parse(r.finishedAt) < end
+    )
+    return getStats(name, sortNewestFirst(records).slice(0, count))
+  }
+
+  // Statistics of every step of the repository, over each step's last `count` builds on `branch`
+  public getRepoStats (repo: string, branch: string, count: number): ReadonlyArray<StepStats> {
+    const names = new Set(
+      this.load()
+        .filter(r => r.repo === repo)
+        .map(r => r.name)
+    )
+    return Array.from(names)
+      .sort()
+      .map(name => this.getStepStats(repo, name, branch, count))
+  }
+
+  private load (): JobRecord[] {
+    if (!this.records) {
+      this.records = this.store.load()
+    }
+    return this.records
+  }
+}
+
+// Describes how a job compares to the step's history, e.g. "This step failed in 4 of the last 20
+// builds on `main`." Returns undefined if there is no history yet.
+export function getHistoryNote (
+  stats: StepStats,
+  branch: string,
+  duration: number
+): string | undefined {
+  if (stats.builds === 0 || stats.medianDuration === undefined) {
+    return undefined
+  }
+
+  const builds = stats.builds === 1 ? 'the last build' : `the last ${stats.builds} builds`
+  const failures =
+    stats.failures === 0
+      ? `This step passed in ${builds} on \`${branch}\`.`
+      : `This step failed in ${stats.failures} of ${builds} on \`${branch}\`.`
+  return `${failures} This run took ${formatDuration(duration)}, the median is ${formatDuration(
+    stats.medianDuration
+  )}.`
+}
+
+export function formatDuration (milliseconds: number): string {
+  const seconds = Math.round(milliseconds / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function getStats (name: string, records: ReadonlyArray<JobRecord>): StepStats {
+  const durations = records.map(r => r.duration).sort((a, b) => a - b)
+  const middle = Math.floor(durations.length / 2)
+  return {
+    builds: records.length,
+    failures: records.filter(r => r.conclusion === 'failure').length,
+    medianDuration:
+      durations.length === 0
+        ? undefined
+        : durations.length % 2 === 1
+          ? durations[middle]
+          : (durations[middle - 1] + durations[middle]) / 2,
+    name
+  }
+}
+
+function sortNewestFirst (records: ReadonlyArray<JobRecord>): JobRecord[] {
+  return [...records].sort((a, b) => Date.parse(b.finishedAt) - Date.parse(a.finishedAt))
+}
@@ -7,18 +7,73 @@ import { Application, Context } from 'probot'
 
 // tslint:disable-next-line:no-submodule-imports
 import { IssueCommentIssue } from 'github-webhook-event-types/source/IssueComment'
-import { BuildInfo } from './ci'
-import { GitHub } from './github'
-import { Travis } from './travis'
+import { AuthorizationError, BuildInfo, CIBuild, CIProvider, getJobIds, StatusInfo } from './ci'
+import {
+  Command,
+  findJobByCheckName,
+  getHelpText,
+  getStatusTable,
+  parseCommand,
+  PRIVILEGED_COMMANDS
+} from './commands'
+import { ConfigError, DEFAULT_CONFIG, loadConfig, SidecarConfig } from './config'
+import { CheckAction, CheckRunInfo, CompletedCheckRunInfo, GitHub } from './github'
+import { createGitLabProvider } from './gitlab'
+import { JobHistory } from './history'
+import { metrics } from './metrics'
+import { ProviderRegistry } from './providers'
+import { BuildQueue, DEFAULT_QUEUE_OPTIONS, QueuedBuild } from './queue'
+import { RateLimitError } from './ratelimit'
+import {
+  InstallationInfo,
+  mountMetricsRoutes,
+  mountStatsRoutes,
+  mountStatusRoutes,
+  mountTokenRoutes
+} from './routes'
+import { createFileStore } from './store'
+import { TokenStore } from './tokens'
+import { createTravisProvider } from './travis'
 
-const inProgress = new Map()
-const maxInProgress = parseInt(process.env.MAX_IN_PROGRESS || '2', 10)
 let appId = parseInt(process.env.APP_ID || '', 10)
 
+const tokens = new TokenStore(
+  process.env.TOKEN_STORE_PATH || '.data/tokens.json',
+  process.env.TOKEN_ENCRYPTION_KEY
+)
+
+const history = new JobHistory(
+  createFileStore(process.env.HISTORY_STORE_PATH || '.data/history.json')
+)
+
+const providers = new ProviderRegistry().register(
+  createTravisProvider(tokens, process.env.TRAVIS_API_URL)
+)
+if (process.env.GITLAB_URLS) {
+  providers.register(
+    createGitLabProvider({
+      baseUrls: process.env.GITLAB_URLS.split(','),
+      token: process.env.GITLAB_TOKEN
+    })
+  )
+}
+
+metrics.describe('status_events_received_total', 'Status events received from GitHub')
+metrics.describe('status_events_dropped_total', 'Status events not from a supported CI system')
+metrics.describe(
+  'status_events_processed_total',
+  'Queued status events whose builds were processed'
+)
+
 interface IssueCommentPullRequestIssue extends IssueCommentIssue {
   readonly pull_request?: object
 }
 
+interface CheckSuite {
+  readonly head_sha: string
+  readonly id: number
+}
+
 async function getAppId (context: Context): Promise<number> {
   if (!appId) {
     appId = (await context.github.apps.get({})).data.id as number
@@ -26,144 +81,551 @@ async function getAppId (context: Context): Promise<number> {
   return appId
 }
 
-async function processJobs (context: Context, buildInfo: BuildInfo): Promise<void> {
-  const travis = new Travis(context, buildInfo)
-  const jobs = await travis.getSupportedJobs()
+// Configuration problems are reported as a check when a build is processed, other handlers
+// carry on with the defaults
+async function loadConfigOrDefault (context: Context): Promise<SidecarConfig> {
+  try {
+    return await loadConfig(context)
+  } catch (e) {
+    return DEFAULT_CONFIG
+  }
+}
+
+interface ProcessResult {
+  // Checks that couldn't be created or updated because of rate limits, until `retryAt`
+  readonly deferredChecks: ReadonlyArray<string>
+  // Checks that couldn't be created or updated because of other errors
+  readonly failedChecks: ReadonlyArray<string>
+  // Whether some checks were completed without output because their logs were still incomplete
+  readonly outputPending: boolean
+  readonly retryAt?: number
+}
+
+const NOTHING_PROCESSED: ProcessResult = {
+  deferredChecks: [],
+  failedChecks: [],
+  outputPending: false
+}
+
+// Mirrors the build's jobs as checks. If `checkName` is given only that check is updated, even if
+// it appears to be up to date. On the `lastAttempt` at a build, checks whose log is still
+// incomplete are completed for good rather than left waiting for a retry.
+async function processJobs (
+  context: Context,
+  provider: CIProvider,
+  buildInfo: BuildInfo,
+  checkName?: string,
+  lastAttempt = false
+): Promise<ProcessResult> {
+  const app = await getAppId(context)
+
+  let config
+  try {
+    config = await loadConfig(context)
+  } catch (e) {
+    if (e instanceof ConfigError) {
+      context.log.warn(e.message)
+      await new GitHub(app, context, buildInfo, DEFAULT_CONFIG).createErrorCheck(
+        'Invalid configuration',
+        e.message
+      )
+      return NOTHING_PROCESSED
+    }
+    throw e
+  }
+
+  // Creating the build reads its stored CI token, which may be rejected as well
+  let build: CIBuild
+  let jobs
+  try {
+    build = provider.createBuild(context, buildInfo, config)
+    jobs = await build.getSupportedJobs()
+  } catch (e) {
+    if (e instanceof AuthorizationError) {
+      context.log.warn(e.message)
+      await new GitHub(app, context, buildInfo, config).createErrorCheck(
+        `${provider.name} authorization failed`,
+        e.message
+      )
+      return NOTHING_PROCESSED
+    }
+    throw e
+  }
+
+  const github = new GitHub(
+    app,
+    context,
+    buildInfo,
+    config,
+    build.getJobOutput.bind(build),
+    history,
+    lastAttempt
+  )
+
   if (!jobs) {
-    return
+    return NOTHING_PROCESSED
   }
   context.log(`Discovered ${jobs.length} supported jobs`)
+  if (config.groupJobs) {
+    jobs = github.groupJobs(jobs)
+  }
 
-  const app = await getAppId(context)
-  const github = new GitHub(app, context, buildInfo, travis.getJobOutput.bind(travis))
-  const toCreate = await github.checksToCreate(jobs)
-  context.log(`Will create or update ${toCreate.length} checks`)
+  let toUpdate = await github.checksToCreate(jobs)
+  if (checkName) {
+    const job = findJobByCheckName(jobs, checkName, j => github.getCheckName(j))
+    toUpdate = job ? [job] : []
+  }
+  context.log(`Will create or update ${toUpdate.length} checks`)
+
+  github.prefetchOutputs(toUpdate)
+  for (const job of toUpdate) {
+    await github.updateCheck(job)
+  }
+
+  if (config.summaryCheckName) {
+    await github.updateSummaryCheck(jobs)
+  }
+
+  if (github.deferredChecks.length > 0) {
+    context.log.warn(
+      `Deferred ${github.deferredChecks.length} checks of build ${buildInfo.id} until ${new Date(
+        github.deferredUntil as number
+      ).toISOString()} because of rate limits: ${github.deferredChecks.join(', ')}`
+    )
+  }
+
+  return {
+    deferredChecks: github.deferredChecks,
+    failedChecks: github.failedChecks,
+    outputPending: github.hasPendingOutput,
+    retryAt: github.deferredUntil
+  }
+}
+
+interface CheckRunBuild {
+  readonly build: CIBuild
+  readonly github: GitHub
+  readonly provider: CIProvider
+}
+
+// Recreates the build that a check run was created for from its external ID, and from its
+// details URL for CI systems whose projects may be named differently from the repository
+async function getCheckRunBuild (
+  context: Context,
+  config: SidecarConfig,
+  domain: string,
+  buildId: string,
+  headSha: string,
+  detailsUrl?: string
+): Promise<CheckRunBuild | undefined> {
+  const provider = providers.findByDomain(domain)
+  if (!provider) {
+    context.log(`No CI provider configured for ${domain}, build ${buildId} can't be changed`)
+    return undefined
+  }
+
+  const { owner, repo } = context.repo()
+  const project = detailsUrl ? provider.parseProject(detailsUrl) : undefined
+  const buildInfo = { domain, headSha, id: buildId, owner, project, repo }
+  const github = new GitHub(await getAppId(context), context, buildInfo, config)
+  try {
+    return { build: provider.createBuild(context, buildInfo, config), github, provider }
+  } catch (e) {
+    if (e instanceof AuthorizationError) {
+      context.log.warn(e.message)
+      await github.createErrorCheck(`${provider.name} authorization failed`, e.message)
+      return undefined
+    }
+    throw e
+  }
+}
+
+// Restarts the jobs behind check runs rerequested from GitHub, or their whole builds if
+// `wholeBuild` is set, and marks the checks queued until the CI system reports on them again
+async function rerunChecks (
+  context: Context,
+  checkRuns: ReadonlyArray<CheckRunInfo>,
+  wholeBuild: boolean
+): Promise<void> {
+  const config = await loadConfigOrDefault(context)
+
+  // Check runs to rerun and the IDs of their jobs, by build
+  const builds = new Map<string, Array<[CheckRunInfo, string]>>()
+  for (const checkRun of checkRuns) {
+    const id = GitHub.parseExternalId(checkRun.external_id)
+    if (!id || id.jobId === 'error') {
+      context.log(`Check run '${checkRun.name}' does not mirror a job and can't be rerun`)
+      continue
+    }
+    const key = `${id.domain}/${id.buildId}`
+    builds.set(key, [...(builds.get(key) || []), [checkRun, id.jobId]])
+  }
+
+  for (const [key, jobs] of builds) {
+    const [domain, buildId] = key.split('/')
+    const checkRunBuild = await getCheckRunBuild(
+      context,
+      config,
+      domain,
+      buildId,
+      jobs[0][0].head_sha,
+      jobs.map(([checkRun]) => checkRun.details_url).find(u => u !== undefined)
+    )
+    if (!checkRunBuild) {
+      continue
+    }
+
+    // The summary check stands for the whole build
+    const { build, github, provider } = checkRunBuild
+    try {
+      if (wholeBuild || jobs.some(([, jobId]) => jobId === 'summary')) {
+        await build.restartBuild()
+      } else {
+        for (const [, jobId] of jobs) {
+          for (const id of getJobIds(jobId)) {
+            await build.restartJob(id)
+          }
+        }
+      }
+    } catch (e) {
+      if (e instanceof AuthorizationError) {
+        context.log.warn(e.message)
+        await github.createErrorCheck(`${provider.name} authorization failed`, e.message)
+        continue
+      }
+      context.log.error(e, `Error occurred rerunning build ${key}`)
+      continue
+    }
+
+    if (provider.restartKeepsJobIds) {
+      for (const [checkRun] of jobs) {
+        await github.createQueuedCheck(checkRun)
+      }
+    }
+  }
+}
+
+// Handles the buttons that `GitHub.addCompletionInfo` adds to failed checks
+async function performCheckAction (
+  context: Context,
+  checkRun: CompletedCheckRunInfo,
+  action: CheckAction
+): Promise<void> {
+  if (action === 'restart_job') {
+    await rerunChecks(context, [checkRun], false)
+    return
+  }
+
+  const id = GitHub.parseExternalId(checkRun.external_id)
+  if (!id) {
+    context.log(`Check run '${checkRun.name}' does not mirror a job`)
+    return
+  }
+
+  const config = await loadConfigOrDefault(context)
+  const checkRunBuild = await getCheckRunBuild(
+    context,
+    config,
+    id.domain,
+    id.buildId,
+    checkRun.head_sha,
+    checkRun.details_url
+  )
+  if (!checkRunBuild) {
+    return
+  }
+
+  const { build, github, provider } = checkRunBuild
+  try {
+    if (action === 'cancel_build') {
+      await build.cancelBuild()
+    } else if (action === 'show_log') {
+      await github.addLogExcerpt(checkRun, await build.getJobLog(id.jobId))
+    } else {
+      context.log(`Unknown action '${action}' requested for check run '${checkRun.name}'`)
+    }
+  } catch (e) {
+    if (e instanceof AuthorizationError) {
+      context.log.warn(e.message)
+      await github.createErrorCheck(`${provider.name} authorization failed`, e.message)
+      return
+    }
+    context.log.error(e, `Error occurred performing '${action}' for check run '${checkRun.name}'`)
+  }
+}
+
+async function runCommand (
+  context: Context,
+  issueComment: IssueComment,
+  config: SidecarConfig,
+  command: Command,
+  queue: BuildQueue
+): Promise<void> {
+  const { issue, repository: repo } = issueComment
+  if (command.name === 'help') {
+    await GitHub.replyToComment(
+      context,
+      issueComment,
+      getHelpText(config.commandPrefix, command.error)
+    )
+    return
+  }
 
-  for (const job of toCreate) {
-    await github.createCheck(job)
+  if (
+    PRIVILEGED_COMMANDS.includes(command.name) &&
+    !(await GitHub.hasWriteAccess(context, issueComment))
+  ) {
+    await GitHub.replyToComment(
+      context,
+      issueComment,
+      `\`${config.commandPrefix} ${
+        command.name
+      }\` can only be used by collaborators with write access.`
+    )
+    return
+  }
+
+  if (command.name === 'rescan') {
+    await GitHub.deleteComment(context, issueComment)
+  }
+
+  const status = await GitHub.getLatestStatus(context, issueComment, providers.statusContexts)
+  const match = status && providers.match(status)
+  if (!status || !match) {
+    context.log(`No CI run found for PR ${issue.number} in ${repo.full_name}`)
+    if (command.name !== 'rescan') {
+      await GitHub.replyToComment(
+        context,
+        issueComment,
+        'No CI build was found for this pull request.'
+      )
+    }
+    return
+  }
+
+  const { buildInfo, provider } = match
+  if (command.name === 'rescan') {
+    let result: ProcessResult | undefined
+    if (command.checkName) {
+      try {
+        result = await processJobs(context, provider, buildInfo, command.checkName)
+      } catch (e) {
+        context.log.error(e, `Error occurred rescanning '${command.checkName}', queueing the build`)
+      }
+    }
+    // Whole builds are rescanned through the queue, as are checks that were deferred by rate
+    // limits or failed, which the queue retries
+    if (!result || result.deferredChecks.length > 0 || result.failedChecks.length > 0) {
+      queue.enqueue(
+        getBuildKey(buildInfo),
+        context.payload.installation.id,
+        getQueuedStatus(status)
+      )
+    }
+    return
+  }
+
+  const github = new GitHub(await getAppId(context), context, buildInfo, config)
+  try {
+    const build = provider.createBuild(context, buildInfo, config)
+    if (command.name === 'cancel') {
+      await build.cancelBuild()
+      return
+    }
+
+    const jobs = (await build.getSupportedJobs()) || []
+    if (command.name === 'status') {
+      await GitHub.replyToComment(
+        context,
+        issueComment,
+        `Jobs of build ${buildInfo.id}:\n\n${getStatusTable(jobs, j => github.getCheckName(j))}`
+      )
+      return
+    }
+
+    const job = findJobByCheckName(
+      config.groupJobs ? github.groupJobs(jobs) : jobs,
+      command.checkName,
+      j => github.getCheckName(j)
+    )
+    if (!job) {
+      await GitHub.replyToComment(
+        context,
+        issueComment,
+        `No job of build ${buildInfo.id} has a check named \`${command.checkName}\`.`
+      )
+      return
+    }
+    for (const id of getJobIds(job.jobId)) {
+      await build.restartJob(id)
+    }
+    if (provider.restartKeepsJobIds) {
+      await github.createQueuedCheck(github.getCheckRunInfo(job))
+    }
+  } catch (e) {
+    if (e instanceof AuthorizationError) {
+      context.log.warn(e.message)
+      await GitHub.replyToComment(context, issueComment, e.message)
+      return
+    }
+    throw e
   }
 }
 
-function getProgressKey (buildInfo: BuildInfo): string {
-  // Build ID is unique per Travis installation
+function getBuildKey (buildInfo: BuildInfo): string {
+  // Build ID is unique per CI installation
   return `${buildInfo.domain}/${buildInfo.id}`
 }
 
-function getPendingCount (key: string): number {
-  return inProgress.get(key) || 0
+// Only the fields providers need are kept, as the status is persisted with the queue
+function getQueuedStatus (status: StatusInfo): StatusInfo {
+  return {
+    repository: { name: status.repository.name, owner: { login: status.repository.owner.login } },
+    sha: status.sha,
+    target_url: status.target_url
+  }
 }
 
-async function logInstallations (app: Application): Promise<void> {
+async function processQueuedBuild (
+  app: Application,
+  build: QueuedBuild,
+  lastAttempt: boolean
+): Promise<void> {
+  const match = providers.match(build.status)
+  if (!match) {
+    app.log.warn(`No CI info detected in queued status for build ${build.key}`)
+    metrics.increment('status_events_dropped_total')
+    return
+  }
+
+  // Queued builds may outlive the webhook that queued them, so a context is rebuilt for them
+  const github = await app.auth(build.installationId, app.log)
+  const payload = { ...build.status, installation: { id: build.installationId } }
+  const context = new Context({ id: build.key, name: 'status', payload }, github, app.log)
+  const result = await processJobs(context, match.provider, match.buildInfo, undefined, lastAttempt)
+  if (result.deferredChecks.length > 0) {
+    // The queue retries the build once the rate limit has reset
+    throw new RateLimitError(
+      `Checks of build ${build.key} were deferred: ${result.deferredChecks.join(', ')}`,
+      result.retryAt as number
+    )
+  }
+  if (result.failedChecks.length > 0) {
+    throw new Error(
+      `Checks of build ${build.key} couldn't be created or updated: ${result.failedChecks.join(
+        ', '
+      )}`
+    )
+  }
+  if (result.outputPending) {
+    // Retrying the build adds the output once the logs are complete
+    throw new Error(`Output of some jobs of build ${build.key} is still pending`)
+  }
+  metrics.increment('status_events_processed_total')
+}
+
+async function getInstallations (app: Application): Promise<ReadonlyArray<InstallationInfo>> {
   const github = await app.auth()
-  const installationIds: ReadonlyArray<number> = await github.paginate(
+  const installations: ReadonlyArray<Octokit.GetInstallationsResponseItem> = await github.paginate(
     github.apps.getInstallations({ per_page: 100 }),
-    (res: Octokit.Response<Octokit.GetInstallationsResponse>) => {
-      const installations = res.data as ReadonlyArray<Octokit.GetInstallationsResponseItem>
-      return installations.map(i => i.id)
-    }
+    (res: Octokit.Response<Octokit.GetInstallationsResponse>) =>
+      res.data as ReadonlyArray<Octokit.GetInstallationsResponseItem>
   )
 
-  for (const id of installationIds) {
-    app.log(`Installation ${id} repos:`)
-    const githubAuthed = await app.auth(id)
-    await githubAuthed.paginate(
+  const result: InstallationInfo[] = []
+  for (const installation of installations) {
+    const githubAuthed = await app.auth(installation.id)
+    const repos: ReadonlyArray<string> = await githubAuthed.paginate(
       githubAuthed.apps.getInstallationRepositories({ per_page: 100 }),
-      (res: Octokit.Response<Octokit.GetInstallationRepositoriesResponse>) => {
-        for (const repo of res.data.repositories) {
-          app.log(repo.full_name)
-        }
-      }
+      (res: Octokit.Response<Octokit.GetInstallationRepositoriesResponse>) =>
+        res.data.repositories.map(r => r.full_name)
     )
+    result.push({ account: installation.account.login, id: installation.id, repos })
+  }
+  return result
+}
+
+async function logInstallations (app: Application): Promise<void> {
+  for (const installation of await getInstallations(app)) {
+    app.log(`Installation ${installation.id} repos:`)
+    for (const repo of installation.repos) {
+      app.log(repo)
+    }
   }
 }
 
 export = (app: Application) => {
+  const queue = new BuildQueue(
+    createFileStore(process.env.QUEUE_STORE_PATH || '.data/queue.json'),
+    (build, lastAttempt) => processQueuedBuild(app, build, lastAttempt),
+    app.log,
+    {
+      ...DEFAULT_QUEUE_OPTIONS,
+      concurrency:
+        parseInt(process.env.QUEUE_CONCURRENCY || '', 10) || DEFAULT_QUEUE_OPTIONS.concurrency,
+      retryDelay:
+        parseInt(process.env.QUEUE_RETRY_DELAY || '', 10) || DEFAULT_QUEUE_OPTIONS.retryDelay
+    }
+  )
+
   app.on('issue_comment', async context => {
     const issueComment: IssueComment = context.payload
     const issue = issueComment.issue as IssueCommentPullRequestIssue
     const repo = issueComment.repository
 
-    if (
-      issue.pull_request !== undefined &&
-      issueComment.action !== 'deleted' &&
-      issueComment.comment.body.toLowerCase() === '/ci rescan'
-    ) {
-      context.log(`Rescan requested for PR ${issue.number} in ${repo.full_name}`)
-      await GitHub.deleteComment(context, issueComment)
-
-      const status = await GitHub.getLatestTravisStatus(context, issueComment)
-      if (!status) {
-        context.log(`No Travis run found for PR ${issue.number} in ${repo.full_name}`)
-        return
-      }
-
-      const buildInfo = Travis.parseStatus(status)
-      if (!buildInfo) {
-        context.log(
-          `Could not extract build info from latest Travis run for PR ${issue.number} in ${
-            repo.full_name
-          }`
-        )
-        return
-      }
+    if (issue.pull_request === undefined || issueComment.action === 'deleted') {
+      return
+    }
 
-      await processJobs(context, buildInfo)
+    const config = await loadConfigOrDefault(context)
+    const command = parseCommand(
+      issueComment.comment.body,
+      config.commandPrefix,
+      config.rescanCommand
+    )
+    if (command) {
+      context.log(`Command '${command.name}' requested for PR ${issue.number} in ${repo.full_name}`)
+      await runCommand(context, issueComment, config, command, queue)
     }
   })
 
   app.on('status', async context => {
     context.log(`Processing status update ${context.payload.id}`)
+    metrics.increment('status_events_received_total')
     const status: Status = context.payload
-    const buildInfo = Travis.parseStatus(status)
-    if (!buildInfo) {
-      context.log(`No Travis info detected in status update ${context.payload.id}`)
+    const match = providers.match(status)
+    if (!match) {
+      context.log(`No CI info detected in status update ${context.payload.id}`)
+      metrics.increment('status_events_dropped_total')
       return
     }
 
-    const key = getProgressKey(buildInfo)
-    context.log(`Travis info detected in status update ${context.payload.id}: ${key}`)
-
-    const pending = getPendingCount(key) + 1
-    if (pending > maxInProgress) {
-      context.log(
-        `Maximum of ${maxInProgress} events already pending for build ${key}, dropping this event`
-      )
-      context.log(`Finished processing status update ${context.payload.id}`)
-      return
-    }
-
-    inProgress.set(key, pending)
+    const key = getBuildKey(match.buildInfo)
+    context.log(
+      `${match.provider.name} info detected in status update ${context.payload.id}: ${key}`
+    )
+    match.provider.forgetBuild(match.buildInfo)
+    queue.enqueue(key, context.payload.installation.id, getQueuedStatus(status))
+    context.log(`Finished processing status update ${context.payload.id}`)
+  })
 
-    if (pending > 1) {
-      context.log(
-        `Job processing already in progress for build ${key}, now ${pending} events to process for this build`
-      )
-      context.log(`Finished processing status update ${context.payload.id}`)
-      return
-    }
+  app.on('check_run.rerequested', async context => {
+    const checkRun: CheckRunInfo = context.payload.check_run
+    context.log(`Rerun requested for check run '${checkRun.name}' (${checkRun.external_id})`)
+    await rerunChecks(context, [checkRun], false)
+  })
 
-    while (getPendingCount(key) > 0) {
-      try {
-        context.log(
-          `Processing jobs for build ${key}, ${getPendingCount(key) -
-            1} events to process after this one`
-        )
-        await processJobs(context, buildInfo)
-      } catch (e) {
-        context.log.error(e, `Error occurred processing jobs for build ${key}`)
-      }
+  app.on('check_suite.rerequested', async context => {
+    const checkSuite: CheckSuite = context.payload.check_suite
+    context.log(`Rerun requested for check suite ${checkSuite.id} on ${checkSuite.head_sha}`)
+    await rerunChecks(context, await GitHub.getSuiteCheckRuns(context, checkSuite.id), true)
+  })
 
-      const pendingAfter = getPendingCount(key) - 1
-      context.log(
-        `Finished processing jobs for build ${key}, now ${pendingAfter} events to process for this build`
-      )
-      if (pendingAfter > 0) {
-        inProgress.set(key, pendingAfter)
-      } else {
-        inProgress.delete(key)
-      }
-    }
-    context.log(`Finished processing status update ${context.payload.id}`)
+  app.on('check_run.requested_action', async context => {
+    const checkRun: CompletedCheckRunInfo = context.payload.check_run
+    const action: CheckAction = context.payload.requested_action.identifier
+    context.log(`Action '${action}' requested for check run '${checkRun.name}'`)
+    await performCheckAction(context, checkRun, action)
   })
 
   app.on('installation', async context => {
@@ -171,7 +633,18 @@ export = (app: Application) => {
     await logInstallations(app)
   })
 
-  // Log installations on start
+  const router = app.route('/ci-sidecar')
+  mountTokenRoutes(router, tokens, process.env.ADMIN_SECRET)
+  mountMetricsRoutes(router, process.env.ADMIN_SECRET)
+  mountStatsRoutes(router, history, process.env.ADMIN_SECRET)
+  mountStatusRoutes(
+    router,
+    { getInstallations: () => getInstallations(app), getQueue: () => queue.list() },
+    process.env.ADMIN_SECRET
+  )
+
+  // Log installations and resume builds queued before a restart on start
   app.log('App Initializing')
   logInstallations(app).catch(e => e)
+  queue.start()
 }
@@ -0,0 +1,165 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Octokit from '@octokit/rest'
+import path from 'path'
+import { promisify } from 'util'
+import { parseString } from 'xml2js'
+import zlib from 'zlib'
+
+import { BuildInfo } from './ci'
+import { createAnnotations, Problem } from './parsers'
+
+const parseXml = promisify<string, { [name: string]: XmlElement }>(parseString)
+
+const MAX_LISTED_FAILURES = 100
+
+interface XmlAttributes {
+  readonly [name: string]: string | undefined
+}
+
+// An element as parsed by xml2js, with its attributes in `$`, its text in `_` and lists of its
+// children by name. Children with nothing but text are parsed as strings.
+interface XmlElement {
+  readonly $?: XmlAttributes
+  readonly _?: string
+  readonly [child: string]: ReadonlyArray<XmlElement | string> | XmlAttributes | string | undefined
+}
+
+interface TestCase {
+  readonly details?: string
+  readonly file?: string
+  readonly line?: number
+  readonly message?: string
+  readonly name: string
+  readonly result: 'passed' | 'failed' | 'skipped'
+}
+
+// Decodes a `---junit-gz` block, which holds a base64 encoded gzip of the XML report
+export function decodeCompressedReport (block: string): string {
+  return zlib.gunzipSync(Buffer.from(block.replace(/\s+/g, ''), 'base64')).toString('utf8')
+}
+
+// Converts a JUnit XML report into a check output summarizing its results
+export async function parseJUnitReport (
+  xml: string,
+  buildInfo: BuildInfo,
+  workingDirectory: string
+): Promise<Octokit.ChecksCreateParamsOutput> {
+  const root = await parseXml(xml)
+  const testCases: TestCase[] = []
+  for (const name of Object.keys(root)) {
+    collectTestCases(root[name], name, undefined, testCases)
+  }
+
+  const count = (result: TestCase['result']) => testCases.filter(t => t.result === result).length
+  const failures = testCases.filter(t => t.result === 'failed')
+  const problems: Problem[] = failures.map(t => ({
+    level: 'failure' as 'failure',
+    line: t.file ? t.line || findLine(t.file, t.details) || 1 : undefined,
+    message: getFailureMessage(t),
+    path: t.file,
+    title: t.name
+  }))
+  const { annotations } = createAnnotations(problems, buildInfo, workingDirectory)
+
+  const output: Octokit.ChecksCreateParamsOutput = {
+    summary: `**${count('passed')}** passed, **${failures.length}** failed, **${count(
+      'skipped'
+    )}** skipped`,
+    title:
+      failures.length > 0
+        ? `${failures.length} of ${testCases.length} tests failed`
+        : `${testCases.length} tests passed`
+  }
+
+  if (failures.length > 0) {
+    const rows = failures
+      .slice(0, MAX_LISTED_FAILURES)
+      .map(t => `| ${escapeCell(t.name)} | ${escapeCell(t.message || '')} |`)
+    output.text = ['| Test | Failure |', '| --- | --- |', ...rows].join('\n')
+    if (failures.length > MAX_LISTED_FAILURES) {
+      output.text += `\n\n_${failures.length - MAX_LISTED_FAILURES} more failures not shown._`
+    }
+  }
+  if (annotations.length > 0) {
+    output.annotations = annotations
+  }
+
+  return output
+}
+
+function collectTestCases (
+  element: XmlElement,
+  name: string,
+  suiteFile: string | undefined,
+  testCases: TestCase[]
+): void {
+  const attributes = element.$ || {}
+  if (name === 'testcase') {
+    testCases.push(getTestCase(element, suiteFile))
+    return
+  }
+
+  const file = attributes.file || suiteFile
+  for (const childName of ['testsuite', 'testcase']) {
+    for (const child of getChildren(element, childName)) {
+      collectTestCases(typeof child === 'string' ? {} : child, childName, file, testCases)
+    }
+  }
+}
+
+function getTestCase (element: XmlElement, suiteFile: string | undefined): TestCase {
+  const attributes = element.$ || {}
+  const className = attributes.classname
+  const name =
+    className && attributes.name ? `${className} › ${attributes.name}` : attributes.name || ''
+  const file = attributes.file || suiteFile
+  const line = attributes.line ? parseInt(attributes.line, 10) : undefined
+
+  const failures = getChildren(element, 'failure')
+  const failed = failures.length > 0 ? failures : getChildren(element, 'error')
+  if (failed.length > 0) {
+    const failure = failed[0]
+    const details = typeof failure === 'string' ? failure : failure._
+    const message = (typeof failure !== 'string' && failure.$ && failure.$.message) || undefined
+    return {
+      details: details ? details.trim() : undefined,
+      file,
+      line,
+      message: message || (details ? details.trim().split('\n')[0] : undefined),
+      name,
+      result: 'failed'
+    }
+  }
+
+  return { file, line, name, result: element.skipped ? 'skipped' : 'passed' }
+}
+
+function getChildren (element: XmlElement, name: string): ReadonlyArray<XmlElement | string> {
+  const children = element[name]
+  return Array.isArray(children) ? children : []
+}
+
+function getFailureMessage (testCase: TestCase): string {
+  const { details, message } = testCase
+  if (details && message && !details.startsWith(message)) {
+    return `${message}\n\n${details}`
+  }
+  return details || message || 'Test failed'
+}
+
+// Stack traces usually point at the failing line within the test file
+function findLine (file: string, details: string | undefined): number | undefined {
+  if (!details) {
+    return undefined
+  }
+
+  const escaped = path.basename(file).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = new RegExp(`${escaped}:(\\d+)`).exec(details)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+function escapeCell (text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
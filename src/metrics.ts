@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+export interface MetricLabels {
+  readonly [name: string]: string
+}
+
+export interface Counter {
+  readonly labels: MetricLabels
+  readonly name: string
+  readonly value: number
+}
+
+// Counters kept in memory for the lifetime of the process, identified by name and labels
+export class Metrics {
+  private readonly counters = new Map<string, Counter>()
+  private readonly descriptions = new Map<string, string>()
+
+  // Documents a counter, which is then exported as 0 until it is first incremented
+  public describe (name: string, help: string): void {
+    this.descriptions.set(name, help)
+  }
+
+  public increment (name: string, labels: MetricLabels = {}, by = 1): void {
+    const key = getKey(name, labels)
+    const counter = this.counters.get(key)
+    this.counters.set(key, { labels, name, value: (counter ? counter.value : 0) + by })
+  }
+
+  public get (name: string, labels: MetricLabels = {}): number {
+    const counter = this.counters.get(getKey(name, labels))
+    return counter ? counter.value : 0
+  }
+
+  public snapshot (): ReadonlyArray<Counter> {
+    return Array.from(this.counters.values())
+  }
+
+  // Counters in Prometheus' text exposition format
+  public toPrometheus (): string {
+    const names = new Set([
+      ...Array.from(this.descriptions.keys()),
+      ...this.snapshot().map(c => c.name)
+    ])
+
+    const lines: string[] = []
+    for (const name of Array.from(names).sort()) {
+      const help = this.descriptions.get(name)
+      if (help) {
+        lines.push(`# HELP ${name} ${help}`)
+      }
+      lines.push(`# TYPE ${name} counter`)
+
+      const counters = this.snapshot().filter(c => c.name === name)
+      if (counters.length === 0) {
+        lines.push(`${name} 0`)
+      }
+      for (const counter of counters) {
+        lines.push(`${getKey(name, counter.labels, true)} ${counter.value}`)
+      }
+    }
+    return lines.map(l => `${l}\n`).join('')
+  }
+
+  // Clears the counters, descriptions are kept
+  public reset (): void {
+    this.counters.clear()
+  }
+}
+
+export const metrics = new Metrics()
+
+// Labels are quoted as JSON strings, which Prometheus accepts as long as they are printable. Its
+// format leaves out the braces of counters without labels.
+function getKey (name: string, labels: MetricLabels, prometheus = false): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(l => `${l}=${JSON.stringify(labels[l])}`)
+  return prometheus && pairs.length === 0 ? name : `${name}{${pairs.join(',')}}`
+}
@@ -0,0 +1,278 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Octokit from '@octokit/rest'
+import jsonlint from 'jsonlint'
+import { Logger } from 'probot'
+
+import { BuildInfo } from './ci'
+import { decodeCompressedReport, parseJUnitReport } from './junit'
+import { metrics } from './metrics'
+import { RateLimitError } from './ratelimit'
+import { LogScanner, ScannerOptions } from './scanner'
+import { MAX_TEXT_LENGTH, validateOutput } from './validation'
+
+type CheckAnnotation = Octokit.ChecksCreateParamsOutputAnnotations
+type CheckImage = Octokit.ChecksCreateParamsOutputImages
+
+// The subset of the Checks API output object that is merged across fenced blocks
+interface CheckOutput {
+  readonly annotations?: ReadonlyArray<CheckAnnotation>
+  readonly images?: ReadonlyArray<CheckImage>
+  readonly summary?: string
+  readonly text?: string
+  readonly title?: string
+}
+
+export interface ScanOptions extends ScannerOptions {
+  readonly buildInfo: BuildInfo
+  // Directory the job ran in, used to make annotation paths relative to the repository
+  readonly workingDirectory: string
+}
+
+// Title of checks whose fenced output couldn't be read
+export const INVALID_OUTPUT_TITLE = 'Invalid check output'
+
+// Longest wait between attempts to read a log
+const MAX_RETRY_DELAY = 15000
+
+metrics.describe('log_retries_total', 'Attempts to read job logs that were retried')
+
+// Thrown when a job's log is still incomplete once the configured deadline has passed, so that its
+// check can be completed without output and updated later
+export class LogIncompleteError extends Error {
+  public constructor (message: string) {
+    super(message)
+    this.name = 'LogIncompleteError'
+  }
+}
+
+// Scans a complete job log for fenced blocks, see LogScanner, and merges them into a single
+// output. Returns undefined if the log is complete but has no blocks. If `endMarker` is given but
+// never seen, or the log ends inside a block, the log is considered incomplete and a
+// `LogStreamIncomplete` error is thrown so that the caller can retry.
+export async function scanForOutput (
+  log: Logger,
+  jobId: string,
+  content: string,
+  options: ScanOptions
+): Promise<object | undefined> {
+  const scanner = new LogScanner(log, jobId, options)
+  scanner.write(Buffer.from(content))
+  scanner.end()
+  return getScannedOutput(log, jobId, scanner, options)
+}
+
+// Merges the blocks found by a scanner into a single output, throwing a `LogStreamIncomplete`
+// error if the scanner hasn't seen the end of the log yet. Blocks that can't be parsed or don't
+// match the Checks API schema are reported in place of the output, so that step authors can see
+// what went wrong.
+export async function getScannedOutput (
+  log: Logger,
+  jobId: string,
+  scanner: LogScanner,
+  options: ScanOptions
+): Promise<object | undefined> {
+  if (!scanner.complete || scanner.inBlock) {
+    log.debug(`Log stream for job ${jobId} was incomplete`)
+    throw new Error('LogStreamIncomplete')
+  }
+
+  const blocks = scanner.closedBlocks
+  log.debug(
+    `Finished getting log stream for job ${jobId}, ${blocks.length} output blocks detected in ${
+      scanner.lines
+    } lines`
+  )
+
+  const outputs: CheckOutput[] = []
+  const problems: string[] = []
+  for (const b of blocks) {
+    if (b.overflow) {
+      problems.push(`Block at line ${b.startLine}: The block is too large to be read`)
+      continue
+    }
+
+    const text = b.lines.join('\n')
+    try {
+      if (b.kind === 'output') {
+        const output = parseBlock(text, b.startLine)
+        const errors = validateOutput(output)
+        problems.push(...errors.map(e => `Block at line ${b.startLine}: ${e}`))
+        outputs.push(output)
+      } else {
+        const xml = b.kind === 'junit-gz' ? decodeCompressedReport(text) : text
+        outputs.push(await parseJUnitReport(xml, options.buildInfo, options.workingDirectory))
+      }
+    } catch (e) {
+      log.debug(text)
+      problems.push(`Block at line ${b.startLine}: ${e.message}`)
+    }
+  }
+
+  const merged = mergeOutputs(outputs)
+  for (const key of ['title', 'summary'] as Array<'title' | 'summary'>) {
+    if (merged && !merged[key]) {
+      problems.push(`No block provides the required \`${key}\``)
+    }
+  }
+
+  if (problems.length > 0) {
+    log.warn(`Invalid output detected for job ${jobId}: ${problems.join(', ')}`)
+    return getInvalidOutput(problems)
+  }
+  return merged
+}
+
+// Calls `getOutput` until it succeeds, waiting twice as long after each failed attempt, and
+// gives up once `timeout` milliseconds have passed. Logs that are still incomplete at that point
+// are reported with a LogIncompleteError, any other error is rethrown. Rate limit errors are
+// rethrown right away, as the limit won't reset before the deadline.
+export async function waitForOutput (
+  log: Logger,
+  jobId: string,
+  timeout: number,
+  getOutput: () => Promise<object | undefined>,
+  initialDelay: number = 1000
+): Promise<object | undefined> {
+  const deadline = Date.now() + timeout
+  let delay = initialDelay
+  while (true) {
+    try {
+      return await getOutput()
+    } catch (e) {
+      if (e instanceof RateLimitError) {
+        throw e
+      }
+      if (Date.now() + delay > deadline) {
+        if (e.message === 'LogStreamIncomplete') {
+          throw new LogIncompleteError(
+            `Log for job ${jobId} was still incomplete after ${Math.round(timeout / 1000)}s`
+          )
+        }
+        throw e
+      }
+
+      log.debug(`Retrying incomplete operation for job ${jobId} in ${delay}ms`)
+      metrics.increment('log_retries_total')
+      await new Promise(resolve => setTimeout(resolve, delay))
+      delay = Math.min(delay * 2, MAX_RETRY_DELAY)
+    }
+  }
+}
+
+function parseBlock (block: string, startLine: number): CheckOutput {
+  const { lineMap, text } = escapeStringNewlines(block)
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    throw getJSONLintError(text, e, lineMap, startLine)
+  }
+}
+
+function getInvalidOutput (problems: ReadonlyArray<string>): object {
+  return {
+    summary: truncate(
+      `The output emitted by this step could not be used:\n\n${problems
+        .map(p => `- ${p}`)
+        .join('\n')}`
+    ),
+    title: INVALID_OUTPUT_TITLE
+  }
+}
+
+// Blocks may spread string values such as `summary` over several lines to keep markdown
+// readable, so raw line breaks and tabs inside strings are escaped rather than rejected. The
+// returned line map gives the block line on which each line of the escaped text ends.
+function escapeStringNewlines (block: string): { lineMap: number[]; text: string } {
+  const lineMap: number[] = []
+  let line = 0
+  let text = ''
+  let inString = false
+  let escaped = false
+
+  for (const char of block) {
+    if (inString && !escaped && char === '\n') {
+      text += '\\n'
+    } else if (inString && !escaped && char === '\t') {
+      text += '\\t'
+    } else {
+      text += char
+      if (char === '\n') {
+        lineMap.push(line)
+      }
+    }
+
+    if (char === '\n') {
+      line += 1
+    }
+
+    if (escaped) {
+      escaped = false
+    } else if (inString && char === '\\') {
+      escaped = true
+    } else if (char === '"') {
+      inString = !inString
+    }
+  }
+
+  lineMap.push(line)
+  return { lineMap, text }
+}
+
+function mergeOutputs (outputs: ReadonlyArray<CheckOutput>): CheckOutput | undefined {
+  if (outputs.length <= 1) {
+    return outputs[0]
+  }
+
+  const joinText = (key: 'summary' | 'text') => {
+    const parts = outputs.map(o => o[key]).filter(t => t)
+    return parts.length > 0 ? parts.join('\n\n') : undefined
+  }
+  const concat = <T>(items: T[]) => (items.length > 0 ? items : undefined)
+  const summary = joinText('summary')
+  const text = joinText('text')
+
+  const merged: CheckOutput = Object.assign({}, ...outputs, {
+    annotations: concat(([] as CheckAnnotation[]).concat(...outputs.map(o => o.annotations || []))),
+    images: concat(([] as CheckImage[]).concat(...outputs.map(o => o.images || []))),
+    summary: summary && truncate(summary),
+    text: text && truncate(text)
+  })
+
+  for (const key of Object.keys(merged) as Array<keyof CheckOutput>) {
+    if (merged[key] === undefined) {
+      delete merged[key]
+    }
+  }
+  return merged
+}
+
+// Combined blocks can exceed the API's length limits even when each block is within them
+function truncate (text: string): string {
+  const note = '\n\n_Truncated, the full output is available in the build log._'
+  return text.length > MAX_TEXT_LENGTH ? text.substr(0, MAX_TEXT_LENGTH - note.length) + note : text
+}
+
+// jsonlint describes syntax errors much better than JSON.parse, its line numbers are translated
+// into log line numbers
+function getJSONLintError (
+  text: string,
+  original: Error,
+  lineMap: ReadonlyArray<number>,
+  startLine: number
+): Error {
+  try {
+    jsonlint.parse(text)
+  } catch (e) {
+    const message: string = e.message || ''
+    const match = /^Parse error on line (\d+):\n([^]*)$/.exec(message)
+    if (match) {
+      const logLine = startLine + (lineMap[parseInt(match[1], 10) - 1] || 0) + 1
+      return new Error(`Invalid JSON on line ${logLine}:\n\n\`\`\`\n${match[2]}\n\`\`\``)
+    }
+    return new Error(`Invalid JSON: ${message}`)
+  }
+
+  return new Error(`Invalid JSON: ${original.message}`)
+}
@@ -0,0 +1,333 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import Octokit from '@octokit/rest'
+
+import { BuildInfo } from './ci'
+
+type Level = 'notice' | 'warning' | 'failure'
+
+export interface Problem {
+  readonly column?: number
+  readonly level: Level
+  readonly line?: number
+  readonly message: string
+  readonly path?: string
+  readonly title?: string
+}
+
+type LogParser = (lines: ReadonlyArray<string>) => Problem[]
+
+const MAX_LISTED_PROBLEMS = 100
+
+// Matches ANSI color and cursor sequences, which CI logs are full of
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g
+
+// file:line[:col]: [level:] message, as printed by gcc, clang, go vet and `eslint -f unix`
+function parseCompiler (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  for (const line of lines) {
+    const match = /^([^\s:][^:]*?\.\w+):(\d+):(?:(\d+):)?\s*(?:(fatal error|error|warning|note|info)\s*:\s*)?(.+)$/.exec(
+      line
+    )
+    if (match) {
+      const eslintLevel = /\[(Error|Warning)\/[^\]]+\]$/.exec(match[5])
+      problems.push({
+        column: match[3] ? parseInt(match[3], 10) : undefined,
+        level: getLevel(eslintLevel ? eslintLevel[1] : match[4] || 'error'),
+        line: parseInt(match[2], 10),
+        message: match[5],
+        path: match[1]
+      })
+    }
+  }
+  return problems
+}
+
+// file(line,col): error TSxxxx: message, or file:line:col - error TSxxxx: message with --pretty
+function parseTypeScript (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  for (const line of lines) {
+    const match =
+      /^(.+?)\((\d+),(\d+)\):\s+(error|warning)\s+(TS\d+):\s*(.+)$/.exec(line) ||
+      /^(.+?):(\d+):(\d+)\s+-\s+(error|warning)\s+(TS\d+):\s*(.+)$/.exec(line)
+    if (match) {
+      problems.push({
+        column: parseInt(match[3], 10),
+        level: getLevel(match[4]),
+        line: parseInt(match[2], 10),
+        message: match[6],
+        path: match[1],
+        title: match[5]
+      })
+    }
+  }
+  return problems
+}
+
+// eslint's default "stylish" format: a file name followed by indented `line:col level message rule`
+function parseESLint (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  let path: string | undefined
+  for (const line of lines) {
+    const match = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/.exec(line)
+    if (match && path) {
+      problems.push({
+        column: parseInt(match[2], 10),
+        level: getLevel(match[3]),
+        line: parseInt(match[1], 10),
+        message: match[4],
+        path,
+        title: match[5]
+      })
+    } else if (/^\S+\.\w+$/.test(line)) {
+      path = line
+    } else if (!match) {
+      path = undefined
+    }
+  }
+  return problems
+}
+
+// `not ok` test points, with the location taken from a following YAML diagnostic block if present
+function parseTAP (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^\s*not ok\b\s*\d*\s*(?:-\s*)?(.*?)(\s+#\s*(?:TODO|SKIP)\b.*)?$/i.exec(lines[i])
+    if (!match || match[2]) {
+      continue
+    }
+
+    let location: RegExpExecArray | undefined
+    let message = match[1] || 'Test failed'
+    if (i + 1 < lines.length && /^\s+---\s*$/.test(lines[i + 1])) {
+      for (i += 2; i < lines.length && !/^\s+\.\.\.\s*$/.test(lines[i]); i++) {
+        const diagnostic = lines[i].trim()
+        location = location || /^(?:at|file):.*?([^\s(]+\.\w+):(\d+)/.exec(diagnostic) || undefined
+        const detail = /^message:\s*['"]?(.+?)['"]?$/.exec(diagnostic)
+        if (detail) {
+          message = `${message}: ${detail[1]}`
+        }
+      }
+    }
+
+    problems.push({
+      level: 'failure',
+      line: location ? parseInt(location[2], 10) : undefined,
+      message,
+      path: location ? location[1] : undefined,
+      title: match[1] || undefined
+    })
+  }
+  return problems
+}
+
+// Failed tests reported by jest as `● Suite › test`, located using the first stack frame
+// that points into the suite's test file
+function parseJest (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  let testFile: string | undefined
+  for (let i = 0; i < lines.length; i++) {
+    const file = /^\s*FAIL\s+(\S+)/.exec(lines[i])
+    if (file) {
+      testFile = file[1]
+      continue
+    }
+
+    // Failures are repeated in the summary at the end of a run
+    if (/^Summary of all failing tests/.test(lines[i])) {
+      break
+    }
+
+    const test = /^\s*●\s+(.+)$/.exec(lines[i])
+    if (!test) {
+      continue
+    }
+
+    let message: string | undefined
+    let location: RegExpExecArray | undefined
+    for (i += 1; i < lines.length && !/^\s*(●|FAIL|PASS)\s/.test(lines[i]); i++) {
+      const trimmed = lines[i].trim()
+      message = message || trimmed || undefined
+      const frame = /\(?([^\s(]+?\.\w+):(\d+):(\d+)\)?$/.exec(trimmed)
+      if (frame && trimmed.startsWith('at ') && testFile && frame[1].endsWith(testFile)) {
+        location = location || frame
+      }
+    }
+    i -= 1
+
+    problems.push({
+      column: location ? parseInt(location[3], 10) : undefined,
+      level: 'failure',
+      line: location ? parseInt(location[2], 10) : undefined,
+      message: message || 'Test failed',
+      path: location ? testFile : undefined,
+      title: test[1].trim()
+    })
+  }
+  return problems
+}
+
+// JUnit failures as printed by Maven Surefire and Gradle, which name the test but not its file
+function parseJUnit (lines: ReadonlyArray<string>): Problem[] {
+  const problems: Problem[] = []
+  const seen = new Set<string>()
+  for (let i = 0; i < lines.length; i++) {
+    const next = i + 1 < lines.length ? lines[i + 1].trim() : ''
+    let title: string | undefined
+    let message: string | undefined
+
+    // testBar(com.example.FooTest)  Time elapsed: 0.01 sec  <<< FAILURE!
+    // [ERROR] testBar(com.example.FooTest)  Time elapsed: 0.01 s  <<< ERROR!
+    let match = /^(?:\[\w+\]\s+)?(\w+)\(([\w.$]+)\)\s+Time elapsed:.*<<<\s+(?:FAILURE|ERROR)!/.exec(
+      lines[i]
+    )
+    if (match) {
+      title = `${match[2]}.${match[1]}`
+      message = next
+    }
+
+    // [ERROR]   FooTest.testBar:42 expected:<1> but was:<2>
+    match = match || /^\[ERROR\]\s+([\w$]+(?:\.[\w$]+)+):\d+\s+(.+)$/.exec(lines[i])
+    if (match && !title) {
+      title = match[1]
+      message = match[2]
+    }
+
+    // com.example.FooTest > testBar FAILED
+    match = match || /^([\w.$]+)\s+>\s+(.+?)\s+FAILED$/.exec(lines[i])
+    if (match && !title) {
+      title = `${match[1]}.${match[2]}`
+      message = next
+    }
+
+    if (title && !seen.has(title)) {
+      seen.add(title)
+      problems.push({ level: 'failure', message: message || 'Test failed', title })
+    }
+  }
+  return problems
+}
+
+const PARSERS: { readonly [name: string]: LogParser } = {
+  compiler: parseCompiler,
+  eslint: parseESLint,
+  jest: parseJest,
+  junit: parseJUnit,
+  tap: parseTAP,
+  tsc: parseTypeScript
+}
+
+// Runs the named parser over a job log, turning the problems it finds into a check output
+export function parseLog (
+  parserName: string,
+  content: string,
+  buildInfo: BuildInfo,
+  workingDirectory: string
+): Octokit.ChecksCreateParamsOutput {
+  const parser = PARSERS[parserName.toLowerCase()]
+  if (!parser) {
+    return {
+      summary: `Unknown log parser \`${parserName}\`. Available parsers are ${Object.keys(PARSERS)
+        .map(p => `\`${p}\``)
+        .join(', ')}.`,
+      title: 'Unknown log parser'
+    }
+  }
+
+  const lines = stripAnsi(content).split(/\r?\n/)
+  const problems = parser(lines)
+  const { annotations, unlocated } = createAnnotations(problems, buildInfo, workingDirectory)
+
+  const output: Octokit.ChecksCreateParamsOutput = {
+    summary: `Parsed with the \`${parserName}\` log parser: ${countByLevel(problems)}.`,
+    title: problems.length === 0 ? 'No problems found' : countByLevel(problems)
+  }
+  if (annotations.length > 0) {
+    output.annotations = annotations
+  }
+  if (unlocated.length > 0) {
+    output.text = unlocated
+      .slice(0, MAX_LISTED_PROBLEMS)
+      .map(p => `- ${p.title ? `**${p.title}**: ` : ''}${p.message}`)
+      .join('\n')
+    if (unlocated.length > MAX_LISTED_PROBLEMS) {
+      output.text += `\n\n_${unlocated.length - MAX_LISTED_PROBLEMS} more not shown._`
+    }
+  }
+  return output
+}
+
+export function stripAnsi (text: string): string {
+  return text.replace(ANSI_PATTERN, '')
+}
+
+// Turns problems into Checks API annotations, separating out those that can't be placed in a file
+// of the repository
+export function createAnnotations (
+  problems: ReadonlyArray<Problem>,
+  buildInfo: BuildInfo,
+  workingDirectory: string
+): { annotations: Octokit.ChecksCreateParamsOutputAnnotations[]; unlocated: Problem[] } {
+  const blobUrl = `https://github.com/${buildInfo.owner}/${buildInfo.repo}/blob/${
+    buildInfo.headSha
+  }`
+
+  const annotations: Octokit.ChecksCreateParamsOutputAnnotations[] = []
+  const unlocated: Problem[] = []
+  for (const problem of problems) {
+    const path = normalizePath(problem.path, workingDirectory)
+    if (path && problem.line) {
+      annotations.push({
+        blob_href: `${blobUrl}/${path}`,
+        end_line: problem.line,
+        filename: path,
+        message: problem.message,
+        start_line: problem.line,
+        title: problem.title,
+        warning_level: problem.level
+      })
+    } else {
+      unlocated.push(problem)
+    }
+  }
+
+  return { annotations, unlocated }
+}
+
+function getLevel (level: string): Level {
+  switch (level.toLowerCase()) {
+    case 'warning':
+      return 'warning'
+    case 'note':
+    case 'info':
+      return 'notice'
+    default:
+      return 'failure'
+  }
+}
+
+function countByLevel (problems: ReadonlyArray<Problem>): string {
+  const count = (level: Level) => problems.filter(p => p.level === level).length
+  const parts = [`${count('failure')} errors`, `${count('warning')} warnings`]
+  if (count('notice') > 0) {
+    parts.push(`${count('notice')} notices`)
+  }
+  return parts.join(', ')
+}
+
+// Annotations need paths relative to the repository root, problems in files outside of the
+// checkout (such as dependencies) are kept but not annotated
+function normalizePath (path: string | undefined, workingDirectory: string): string | undefined {
+  if (!path) {
+    return undefined
+  }
+
+  let relative = path.replace(/\\/g, '/')
+  if (relative.startsWith(`${workingDirectory}/`)) {
+    relative = relative.substr(workingDirectory.length + 1)
+  }
+  relative = relative.replace(/^(\.\/)+/, '')
+
+  return relative.startsWith('/') || relative.startsWith('../') ? undefined : relative
+}
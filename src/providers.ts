@@ -0,0 +1,41 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { BuildInfo, CIProvider, StatusInfo } from './ci'
+
+export interface ProviderMatch {
+  readonly buildInfo: BuildInfo
+  readonly provider: CIProvider
+}
+
+export class ProviderRegistry {
+  private readonly providers: CIProvider[] = []
+
+  public register (provider: CIProvider): this {
+    this.providers.push(provider)
+    return this
+  }
+
+  public match (status: StatusInfo): ProviderMatch | undefined {
+    for (const provider of this.providers) {
+      const buildInfo = provider.parseStatus(status)
+      if (buildInfo) {
+        return { buildInfo, provider }
+      }
+    }
+
+    return undefined
+  }
+
+  public findByDomain (domain: string): CIProvider | undefined {
+    return this.providers.find(p => p.domains.includes(domain.toLowerCase()))
+  }
+
+  public get statusContexts (): ReadonlyArray<string> {
+    const contexts: string[] = []
+    for (const provider of this.providers) {
+      contexts.push(...provider.statusContexts)
+    }
+    return contexts
+  }
+}
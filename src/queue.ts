@@ -0,0 +1,186 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Logger } from 'probot'
+
+import { StatusInfo } from './ci'
+import { RateLimitError } from './ratelimit'
+import { ListStore } from './store'
+
+export interface QueuedBuild {
+  readonly attempts: number
+  readonly installationId: number
+  // Identifies the build, only the latest status for each build is kept
+  readonly key: string
+  // Epoch milliseconds before which the build shouldn't be processed
+  readonly notBefore: number
+  readonly status: StatusInfo
+}
+
+// A queued build as listed by the admin routes
+export interface QueueEntry extends QueuedBuild {
+  readonly running: boolean
+}
+
+// Persists the queue so that pending builds survive a restart
+export type QueueStore = ListStore<QueuedBuild>
+
+export interface QueueOptions {
+  readonly concurrency: number
+  readonly maxAttempts: number
+  // Delay before the first retry, doubled for each retry after that
+  readonly retryDelay: number
+}
+
+// `lastAttempt` is set when the build won't be retried if it fails, so that it can finish what
+// it would otherwise leave to a retry
+export type ProcessBuildFunc = (build: QueuedBuild, lastAttempt: boolean) => Promise<void>
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 2,
+  maxAttempts: 5,
+  retryDelay: 30000
+}
+
+// Processes builds in the background, one at a time per build. Statuses for a build that is
+// already queued replace the queued status rather than adding to the queue, and a status that
+// arrives while its build is being processed queues the build to be processed again afterwards.
+export class BuildQueue {
+  private readonly builds = new Map<string, QueuedBuild>()
+  private readonly log: Logger
+  private readonly options: QueueOptions
+  private readonly processBuild: ProcessBuildFunc
+  private readonly running = new Set<string>()
+  private readonly store: QueueStore
+  private timer?: NodeJS.Timer
+
+  public constructor (
+    store: QueueStore,
+    processBuild: ProcessBuildFunc,
+    log: Logger,
+    options: QueueOptions = DEFAULT_QUEUE_OPTIONS
+  ) {
+    this.store = store
+    this.processBuild = processBuild
+    this.log = log
+    this.options = options
+  }
+
+  public get size (): number {
+    return this.builds.size
+  }
+
+  // Builds that are being processed or waiting to be, in the order they are due
+  public list (): ReadonlyArray<QueueEntry> {
+    return Array.from(this.builds.values())
+      .sort((a, b) => a.notBefore - b.notBefore)
+      .map(b => ({ ...b, running: this.running.has(b.key) }))
+  }
+
+  // Resumes processing of builds left in the store by a previous run
+  public start (): void {
+    for (const build of this.store.load()) {
+      this.builds.set(build.key, build)
+    }
+    if (this.builds.size > 0) {
+      this.log.info(`Resuming ${this.builds.size} queued builds`)
+    }
+    this.pump()
+  }
+
+  public enqueue (key: string, installationId: number, status: StatusInfo): void {
+    this.log.debug(
+      `Queueing build ${key}${this.builds.has(key) ? ', replacing queued status' : ''}`
+    )
+    this.builds.set(key, { attempts: 0, installationId, key, notBefore: Date.now(), status })
+    this.save()
+    this.pump()
+  }
+
+  // Waits until every queued build has been processed or given up on, for use in tests and
+  // tooling rather than request handlers
+  public async drain (): Promise<void> {
+    while (this.builds.size > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  }
+
+  private pump (): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+
+    const now = Date.now()
+    const waiting = Array.from(this.builds.values())
+      .filter(b => !this.running.has(b.key))
+      .sort((a, b) => a.notBefore - b.notBefore)
+
+    for (const build of waiting) {
+      if (build.notBefore > now) {
+        this.timer = setTimeout(() => this.pump(), build.notBefore - now)
+        return
+      }
+      if (this.running.size >= this.options.concurrency) {
+        return
+      }
+      this.run(build).catch(e => this.log.error(e, `Error occurred running build ${build.key}`))
+    }
+  }
+
+  private async run (build: QueuedBuild): Promise<void> {
+    this.running.add(build.key)
+    try {
+      this.log.debug(`Processing build ${build.key}, attempt ${build.attempts + 1}`)
+      await this.processBuild(build, build.attempts + 1 >= this.options.maxAttempts)
+      this.complete(build)
+    } catch (e) {
+      this.retry(build, e)
+    } finally {
+      this.running.delete(build.key)
+      this.save()
+      this.pump()
+    }
+  }
+
+  private complete (build: QueuedBuild): void {
+    // A newer status queued while processing means the build needs to be processed again
+    if (this.builds.get(build.key) === build) {
+      this.builds.delete(build.key)
+    }
+  }
+
+  private retry (build: QueuedBuild, error: Error): void {
+    if (this.builds.get(build.key) !== build) {
+      this.log.warn(`Error processing build ${build.key}, a newer status is queued: ${error}`)
+      return
+    }
+
+    // Rate limits always reset, so builds that hit one are retried from then on without using up
+    // their attempts
+    if (error instanceof RateLimitError) {
+      this.log.warn(`Build ${build.key} was deferred by rate limits: ${error.message}`)
+      this.builds.set(build.key, { ...build, notBefore: Math.max(error.retryAt, Date.now()) })
+      return
+    }
+
+    const attempts = build.attempts + 1
+    if (attempts >= this.options.maxAttempts) {
+      this.log.error(error, `Giving up on build ${build.key} after ${attempts} attempts`)
+      this.builds.delete(build.key)
+      return
+    }
+
+    const delay = this.options.retryDelay * Math.pow(2, attempts - 1)
+    this.log.warn(`Error processing build ${build.key}, retrying in ${delay}ms: ${error}`)
+    this.builds.set(build.key, { ...build, attempts, notBefore: Date.now() + delay })
+  }
+
+  private save (): void {
+    try {
+      this.store.save(Array.from(this.builds.values()))
+    } catch (e) {
+      this.log.error(e, 'Unable to save the build queue')
+    }
+  }
+}
@@ -0,0 +1,237 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Logger } from 'probot'
+
+export interface RateLimitOptions {
+  // Longest a call waits for a rate limit to reset, calls that would wait longer are deferred
+  // with a RateLimitError
+  readonly maxWait: number
+  readonly retries: number
+  // Delay before the first retry of a failed idempotent call, doubled for each retry after that
+  readonly retryDelay: number
+  // Below this many remaining requests, calls are spread out evenly until the limit resets
+  readonly throttleBelow: number
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  maxWait: 60000,
+  retries: 3,
+  retryDelay: 1000,
+  throttleBelow: 100
+}
+
+// GitHub asks to wait at least a minute after hitting a secondary rate limit that doesn't say
+// when to retry
+const SECONDARY_LIMIT_DELAY = 60000
+
+interface Headers {
+  readonly [name: string]: string | string[] | undefined
+}
+
+// The parts of a response or error that limits are read from. Octokit responses and errors carry
+// `headers` and Octokit errors their status as `code`, request's errors carry `statusCode` and the
+// `response`, and network errors a string `code` such as ECONNRESET.
+interface CallOutcome {
+  readonly code?: number | string
+  readonly headers?: Headers
+  readonly response?: { readonly headers?: Headers }
+  readonly status?: number
+  readonly statusCode?: number
+}
+
+interface Limit {
+  // Epoch milliseconds before which no call may start
+  blockedUntil: number
+  // Epoch milliseconds at which the next call may start while calls are spread out
+  nextAt: number
+  remaining?: number
+  reset?: number
+}
+
+// Thrown for calls that were deferred because the rate limit won't reset within `maxWait`, they
+// can be made again from `retryAt` on
+export class RateLimitError extends Error {
+  public readonly retryAt: number
+
+  public constructor (message: string, retryAt: number) {
+    super(message)
+    this.name = 'RateLimitError'
+    this.retryAt = retryAt
+  }
+}
+
+export interface RateLimiter {
+  // Makes the call once the key's limit allows it. Calls that were rejected by a rate limit are
+  // retried once it resets, as they weren't carried out, other failures are only retried if the
+  // call is `idempotent` and the failure is transient.
+  run<T> (key: string, log: Logger, idempotent: boolean, call: () => Promise<T>): Promise<T>
+  // Epoch milliseconds at which the next call for the key may start
+  getNextCallTime (key: string): number
+}
+
+// Tracks the rate limits of the APIs Sidecar calls by key, e.g. `github/<installation id>` or
+// `travis/<domain>`, from the `X-RateLimit-*` and `Retry-After` headers of their responses.
+// Calls wait while a limit is exhausted and are spread out as it runs low.
+export function createRateLimiter (
+  options: RateLimitOptions = DEFAULT_RATE_LIMIT_OPTIONS
+): RateLimiter {
+  const limits = new Map<string, Limit>()
+
+  function getLimit (key: string): Limit {
+    let limit = limits.get(key)
+    if (!limit) {
+      limit = { blockedUntil: 0, nextAt: 0 }
+      limits.set(key, limit)
+    }
+    return limit
+  }
+
+  function getNextCallTime (key: string): number {
+    const limit = getLimit(key)
+    return Math.max(Date.now(), limit.blockedUntil, limit.nextAt)
+  }
+
+  function block (key: string, until: number): void {
+    const limit = getLimit(key)
+    limit.blockedUntil = Math.max(limit.blockedUntil, until)
+  }
+
+  function update (key: string, headers: Headers): void {
+    const remaining = parseInt(getHeader(headers, 'x-ratelimit-remaining'), 10)
+    const reset = parseInt(getHeader(headers, 'x-ratelimit-reset'), 10)
+    if (isNaN(remaining) || isNaN(reset)) {
+      return
+    }
+
+    const limit = getLimit(key)
+    limit.remaining = remaining
+    limit.reset = reset * 1000
+    if (remaining === 0) {
+      block(key, limit.reset)
+    }
+  }
+
+  function getSpacing (limit: Limit, now: number): number {
+    if (
+      limit.remaining === undefined ||
+      limit.reset === undefined ||
+      limit.reset <= now ||
+      limit.remaining >= options.throttleBelow
+    ) {
+      return 0
+    }
+    return (limit.reset - now) / Math.max(limit.remaining, 1)
+  }
+
+  async function wait (key: string, log: Logger): Promise<void> {
+    const now = Date.now()
+    const start = getNextCallTime(key)
+    if (start - now > options.maxWait) {
+      throw new RateLimitError(
+        `Rate limit of ${key} is exhausted until ${new Date(start).toISOString()}`,
+        start
+      )
+    }
+
+    const limit = getLimit(key)
+    const spacing = getSpacing(limit, start)
+    if (spacing > 0) {
+      limit.nextAt = start + spacing
+    }
+    if (start > now) {
+      log.debug(`Waiting ${start - now}ms for the rate limit of ${key}`)
+      await delay(start - now)
+    }
+  }
+
+  return {
+    getNextCallTime,
+
+    async run<T> (
+      key: string,
+      log: Logger,
+      idempotent: boolean,
+      call: () => Promise<T>
+    ): Promise<T> {
+      for (let attempt = 0; ; attempt++) {
+        await wait(key, log)
+        try {
+          const result = await call()
+          update(key, getHeaders(result as CallOutcome | undefined))
+          return result
+        } catch (e) {
+          const headers = getHeaders(e)
+          const status = getStatus(e)
+          update(key, headers)
+
+          const limited = isRateLimited(status, headers, e.message)
+          if (limited) {
+            block(key, getRetryAt(headers))
+          }
+          if (attempt >= options.retries) {
+            throw limited ? new RateLimitError(e.message, getLimit(key).blockedUntil) : e
+          }
+          if (!limited && !(idempotent && isTransient(status, e))) {
+            throw e
+          }
+
+          log.warn(`Call to ${key} failed with ${status || e.message}, retrying`)
+          if (!limited) {
+            await delay(options.retryDelay * Math.pow(2, attempt))
+          }
+        }
+      }
+    }
+  }
+}
+
+// Shared by every GitHub and Travis call so that concurrent builds see the same limits
+export const rateLimiter = createRateLimiter()
+
+function getHeaders (resultOrError: CallOutcome | undefined): Headers {
+  const source = resultOrError && (resultOrError.response || resultOrError)
+  return (source && typeof source.headers === 'object' && source.headers) || {}
+}
+
+function getStatus (error: CallOutcome): number | undefined {
+  const status = error.statusCode || error.status || error.code
+  return typeof status === 'number' ? status : undefined
+}
+
+function getHeader (headers: Headers, name: string): string {
+  const value = headers[name]
+  return (Array.isArray(value) ? value[0] : value) || ''
+}
+
+function isRateLimited (status: number | undefined, headers: Headers, message: string): boolean {
+  return (
+    status === 429 ||
+    (status === 403 &&
+      (getHeader(headers, 'x-ratelimit-remaining') === '0' ||
+        getHeader(headers, 'retry-after') !== '' ||
+        /rate limit|abuse/i.test(message || '')))
+  )
+}
+
+// Server errors and network errors such as ECONNRESET, which have a string code
+function isTransient (status: number | undefined, error: CallOutcome): boolean {
+  return status === undefined ? typeof error.code === 'string' : status >= 500
+}
+
+function getRetryAt (headers: Headers): number {
+  const retryAfter = parseInt(getHeader(headers, 'retry-after'), 10)
+  if (!isNaN(retryAfter)) {
+    return Date.now() + retryAfter * 1000
+  }
+
+  const reset = parseInt(getHeader(headers, 'x-ratelimit-reset'), 10)
+  if (getHeader(headers, 'x-ratelimit-remaining') === '0' && !isNaN(reset)) {
+    return reset * 1000
+  }
+  return Date.now() + SECONDARY_LIMIT_DELAY
+}
+
+function delay (ms: number): Promise<void> {
+  return new Promise<void>(resolve => setTimeout(resolve, ms))
+}
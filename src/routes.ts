@@ -0,0 +1,141 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import crypto from 'crypto'
+import express from 'express'
+
+import { DEFAULT_CONFIG } from './config'
+import { recentErrors } from './errors'
+import { JobHistory } from './history'
+import { metrics } from './metrics'
+import { QueueEntry } from './queue'
+import { TokenStore } from './tokens'
+
+// Admin routes require `Authorization: Bearer <secret>`, and are disabled when no secret is set
+function requireAdmin (secret: string | undefined): express.RequestHandler {
+  return (req, res, next) => {
+    if (!secret) {
+      res.sendStatus(404)
+      return
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`)
+    const actual = Buffer.from(req.headers.authorization || '')
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      res.sendStatus(401)
+      return
+    }
+
+    next()
+  }
+}
+
+function updateToken (
+  set: (req: express.Request, token: string | undefined) => void
+): express.RequestHandler {
+  return (req, res) => {
+    const token = req.method === 'DELETE' ? undefined : req.body && req.body.token
+    if (req.method !== 'DELETE' && (typeof token !== 'string' || !token)) {
+      res.status(400).json({ error: 'Request body must be a JSON object with a "token" string' })
+      return
+    }
+
+    try {
+      set(req, token)
+      res.sendStatus(204)
+    } catch (e) {
+      res.status(503).json({ error: e.message })
+    }
+  }
+}
+
+export function mountTokenRoutes (
+  router: express.Router,
+  tokens: TokenStore,
+  adminSecret: string | undefined
+): void {
+  const admin = requireAdmin(adminSecret)
+  const setForInstallation = updateToken((req, token) =>
+    tokens.setForInstallation(parseInt(req.params.installationId, 10), token)
+  )
+  const setForRepo = updateToken((req, token) =>
+    tokens.setForRepo(req.params.owner, req.params.repo, token)
+  )
+
+  router.put('/tokens/installations/:installationId', admin, express.json(), setForInstallation)
+  router.delete('/tokens/installations/:installationId', admin, setForInstallation)
+  router.put('/tokens/repos/:owner/:repo', admin, express.json(), setForRepo)
+  router.delete('/tokens/repos/:owner/:repo', admin, setForRepo)
+}
+
+export interface InstallationInfo {
+  readonly account: string
+  readonly id: number
+  // `owner/repo`
+  readonly repos: ReadonlyArray<string>
+}
+
+// What the status routes report on, provided by the app
+export interface StatusSource {
+  getInstallations (): Promise<ReadonlyArray<InstallationInfo>>
+  getQueue (): ReadonlyArray<QueueEntry>
+}
+
+// Counters such as status events and cache hits, in Prometheus' text format. Prometheus can send
+// the admin secret with `authorization: { credentials: <secret> }` in its scrape config.
+export function mountMetricsRoutes (router: express.Router, adminSecret: string | undefined): void {
+  router.get('/metrics', requireAdmin(adminSecret), (_, res) => {
+    res.type('text/plain; version=0.0.4').send(metrics.toPrometheus())
+  })
+}
+
+// `/health` is public for load balancers and uptime checks, the other routes list installations,
+// queued builds and recent errors for admins
+export function mountStatusRoutes (
+  router: express.Router,
+  source: StatusSource,
+  adminSecret: string | undefined
+): void {
+  const admin = requireAdmin(adminSecret)
+
+  router.get('/health', (_, res) => {
+    res.json({ status: 'ok', uptime: Math.round(process.uptime()) })
+  })
+
+  router.get('/installations', admin, (_, res) => {
+    source
+      .getInstallations()
+      .then(installations => res.json(installations))
+      .catch(e => res.status(502).json({ error: e.message }))
+  })
+
+  router.get('/queue', admin, (_, res) => {
+    res.json(source.getQueue())
+  })
+
+  router.get('/errors', admin, (_, res) => {
+    res.json(recentErrors.list())
+  })
+}
+
+// Statistics of each step of a repository, over its last `builds` builds on `branch`, e.g.
+// `/stats/octocat/hello-world?branch=main&builds=50`
+export function mountStatsRoutes (
+  router: express.Router,
+  history: JobHistory,
+  adminSecret: string | undefined
+): void {
+  router.get('/stats/:owner/:repo', requireAdmin(adminSecret), (req, res) => {
+    const branch: string = req.query.branch || DEFAULT_CONFIG.historyBranch
+    const builds = req.query.builds ? Number(req.query.builds) : DEFAULT_CONFIG.historyLength
+    if (Array.isArray(branch) || !(Number.isInteger(builds) && builds > 0)) {
+      res
+        .status(400)
+        .json({ error: '`branch` must be a single branch, `builds` a positive integer' })
+      return
+    }
+
+    const repo = `${req.params.owner}/${req.params.repo}`
+    res.json({ branch, builds, repo, steps: history.getRepoStats(repo, branch, builds) })
+  })
+}
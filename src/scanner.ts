@@ -0,0 +1,201 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Logger } from 'probot'
+import request, { Headers } from 'request'
+import { StringDecoder } from 'string_decoder'
+
+import { REQUEST_TIMEOUT } from './ci'
+
+// Logs are scanned without keeping them in memory, only fenced blocks are buffered and they may
+// not grow beyond this many bytes in total
+export const MAX_BUFFERED_BYTES = 8 * 1024 * 1024
+
+export interface Block {
+  readonly kind: string
+  readonly lines: string[]
+  // Set if lines were dropped because the block exceeded the buffer limit
+  overflow?: boolean
+  readonly startLine: number
+}
+
+export interface ScannerOptions {
+  // Text that marks the end of a complete log
+  readonly endMarker?: string
+  readonly fence: string
+  readonly maxBufferedBytes?: number
+}
+
+// Scans a log for blocks fenced by `---<fence>` (JSON output), `---junit` or `---junit-gz`
+// (JUnit XML reports) and `---` as it arrives. The log may be written in several parts, e.g. by
+// successive ranged requests while a job's log is still growing, and scanning picks up where the
+// previous part ended.
+export class LogScanner {
+  private block?: Block
+  private readonly blocks: Block[] = []
+  private bufferedBytes = 0
+  private bytes = 0
+  private readonly decoder = new StringDecoder('utf8')
+  private done = false
+  private readonly endMarker?: string
+  private readonly fences: { readonly [fence: string]: string | undefined }
+  private lineCount = 0
+  private readonly log: Logger
+  private readonly logId: string
+  private readonly maxBufferedBytes: number
+  private partial = ''
+
+  public constructor (log: Logger, logId: string, options: ScannerOptions) {
+    this.endMarker = options.endMarker
+    this.fences = {
+      [`---${options.fence}`]: 'output',
+      '---junit': 'junit',
+      '---junit-gz': 'junit-gz'
+    }
+    this.log = log
+    this.logId = logId
+    this.maxBufferedBytes = options.maxBufferedBytes || MAX_BUFFERED_BYTES
+  }
+
+  // Bytes of the log received so far, where the next part of the log starts
+  public get bytesScanned (): number {
+    return this.bytes
+  }
+
+  // Whether the end marker has been seen, nothing after it is scanned
+  public get complete (): boolean {
+    return this.done
+  }
+
+  public get lines (): number {
+    return this.lineCount
+  }
+
+  // Blocks that have been closed so far
+  public get closedBlocks (): ReadonlyArray<Block> {
+    return this.blocks
+  }
+
+  // Whether the log so far ends inside a block
+  public get inBlock (): boolean {
+    return this.block !== undefined
+  }
+
+  // Scans the next part of the log, returning true once the end marker has been seen
+  public write (chunk: Buffer): boolean {
+    if (this.done) {
+      return true
+    }
+
+    this.bytes += chunk.length
+    const text = this.partial + this.decoder.write(chunk)
+    const lines = text.split('\n')
+    this.partial = lines.pop() as string
+    for (const line of lines) {
+      this.scanLine(line.replace(/\r$/, ''))
+      if (this.done) {
+        return true
+      }
+    }
+
+    // Lines are only ever needed whole inside blocks, anything longer than the buffer is cut
+    if (this.partial.length > this.maxBufferedBytes) {
+      this.partial = this.partial.substr(0, this.maxBufferedBytes)
+    }
+    return false
+  }
+
+  // Scans the last line of a log that has been received in full
+  public end (): void {
+    const rest = this.partial + this.decoder.end()
+    this.partial = ''
+    if (!this.done && rest) {
+      this.scanLine(rest.replace(/\r$/, ''))
+    }
+    if (!this.endMarker && !this.block) {
+      this.done = true
+    }
+  }
+
+  private scanLine (line: string): void {
+    this.lineCount += 1
+    const trimmed = line.trim()
+    const block = this.block
+    if (!block && this.fences[trimmed]) {
+      this.log.debug(
+        `Fenced ${this.fences[trimmed]} block detected for job ${this.logId} at line ${
+          this.lineCount
+        }`
+      )
+      this.block = { kind: this.fences[trimmed] as string, lines: [], startLine: this.lineCount }
+    } else if (block && trimmed === '---') {
+      this.log.debug(
+        `Detected end of fenced ${block.kind} block for job ${this.logId} at line ${this.lineCount}`
+      )
+      this.blocks.push(block)
+      this.block = undefined
+    } else if (block) {
+      this.bufferedBytes += line.length
+      if (this.bufferedBytes > this.maxBufferedBytes) {
+        block.overflow = true
+      } else {
+        block.lines.push(line)
+      }
+    } else if (this.endMarker && trimmed.includes(this.endMarker)) {
+      this.done = true
+    }
+  }
+}
+
+// Streams the part of the log at `uri` that `scanner` hasn't seen yet into it, asking for just
+// that part with a range request and stopping as soon as the scanner has seen the end of the log.
+// Servers that ignore the range are handled by skipping the part that was already scanned.
+export function streamLog (
+  uri: string,
+  headers: Headers,
+  scanner: LogScanner,
+  timeout: number = REQUEST_TIMEOUT
+): Promise<void> {
+  const offset = scanner.bytesScanned
+  return new Promise<void>((resolve, reject) => {
+    const req = request({
+      headers: offset > 0 ? { ...headers, Range: `bytes=${offset}-` } : headers,
+      timeout,
+      uri
+    })
+
+    req.on('error', reject)
+    req.on('response', res => {
+      // Nothing was added to the log since the last request
+      if (res.statusCode === 416) {
+        req.abort()
+        resolve()
+        return
+      }
+      if (res.statusCode >= 400) {
+        req.abort()
+        reject(
+          Object.assign(new Error(`Request for ${uri} failed with ${res.statusCode}`), {
+            statusCode: res.statusCode
+          })
+        )
+        return
+      }
+
+      let skip = res.statusCode === 206 ? 0 : offset
+      res.on('data', (data: Buffer) => {
+        let chunk = data
+        if (skip > 0) {
+          const skipped = Math.min(skip, chunk.length)
+          chunk = chunk.slice(skipped)
+          skip -= skipped
+        }
+        if (chunk.length > 0 && scanner.write(chunk)) {
+          req.abort()
+          resolve()
+        }
+      })
+      res.on('end', resolve)
+    })
+  })
+}
@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import fs from 'fs'
+import path from 'path'
+
+// Persists a list of entries, such as the build queue or the job history. The file store is
+// enough for a single instance, anything that can save and load a list (such as SQLite) can be
+// plugged in instead.
+export interface ListStore<T> {
+  load (): T[]
+  save (entries: ReadonlyArray<T>): void
+}
+
+// Keeps the entries in a JSON file, replaced atomically on every change
+export function createFileStore<T> (filePath: string): ListStore<T> {
+  return {
+    load (): T[] {
+      try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T[]
+      } catch (e) {
+        if (e.code !== 'ENOENT') {
+          throw e
+        }
+        return []
+      }
+    },
+
+    save (entries: ReadonlyArray<T>): void {
+      const dir = path.dirname(filePath)
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir)
+      }
+      const tempPath = `${filePath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(entries))
+      fs.renameSync(tempPath, filePath)
+    }
+  }
+}
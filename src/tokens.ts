@@ -0,0 +1,142 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+import { AuthorizationError } from './ci'
+
+const ALGORITHM = 'aes-256-gcm'
+
+interface EncryptedToken {
+  readonly data: string
+  readonly iv: string
+  readonly tag: string
+}
+
+interface TokenFile {
+  [key: string]: EncryptedToken | undefined
+}
+
+// Stores CI API tokens keyed by installation or repository, encrypted at rest with a key
+// derived from `secret`. Without a secret the store is disabled and never returns a token.
+// Tokens that can't be read, e.g. because the secret changed, are reported with an
+// AuthorizationError so that the build they were needed for can report it.
+export class TokenStore {
+  private readonly filePath: string
+  private readonly key?: Buffer
+  private tokens?: TokenFile
+
+  public constructor (filePath: string, secret?: string) {
+    this.filePath = filePath
+    if (secret) {
+      this.key = crypto
+        .createHash('sha256')
+        .update(secret)
+        .digest()
+    }
+  }
+
+  public get enabled (): boolean {
+    return this.key !== undefined
+  }
+
+  // Repository tokens take precedence over installation tokens
+  public get (installationId: number | undefined, owner: string, repo: string): string | undefined {
+    return (
+      this.read(repoKey(owner, repo)) ||
+      (installationId ? this.read(installationKey(installationId)) : undefined)
+    )
+  }
+
+  public setForInstallation (installationId: number, token: string | undefined): void {
+    this.write(installationKey(installationId), token)
+  }
+
+  public setForRepo (owner: string, repo: string, token: string | undefined): void {
+    this.write(repoKey(owner, repo), token)
+  }
+
+  private read (key: string): string | undefined {
+    if (!this.key) {
+      return undefined
+    }
+
+    const entry = this.load()[key]
+    if (!entry) {
+      return undefined
+    }
+
+    try {
+      const iv = Buffer.from(entry.iv, 'base64')
+      const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv) as crypto.DecipherGCM
+      decipher.setAuthTag(Buffer.from(entry.tag, 'base64'))
+      return decipher.update(entry.data, 'base64', 'utf8') + decipher.final('utf8')
+    } catch (e) {
+      throw new AuthorizationError(
+        `The stored CI token for ${key} could not be decrypted (${
+          e.message
+        }). TOKEN_ENCRYPTION_KEY may have changed since it was stored, in which case the token needs to be stored again.`
+      )
+    }
+  }
+
+  private write (key: string, token: string | undefined): void {
+    if (!this.key) {
+      throw new Error('Token storage is disabled, set TOKEN_ENCRYPTION_KEY to enable it')
+    }
+
+    const tokens = this.load()
+    if (token) {
+      const iv = crypto.randomBytes(12)
+      const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv) as crypto.CipherGCM
+      const data = cipher.update(token, 'utf8', 'base64') + cipher.final('base64')
+      tokens[key] = {
+        data,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64')
+      }
+    } else {
+      delete tokens[key]
+    }
+
+    const dir = path.dirname(this.filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir)
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(tokens, undefined, 2), { mode: 0o600 })
+  }
+
+  private load (): TokenFile {
+    if (!this.tokens) {
+      let content
+      try {
+        content = fs.readFileSync(this.filePath, 'utf8')
+      } catch (e) {
+        if (e.code !== 'ENOENT') {
+          throw e
+        }
+        content = '{}'
+      }
+      try {
+        this.tokens = JSON.parse(content) as TokenFile
+      } catch (e) {
+        throw new AuthorizationError(
+          `The stored CI tokens in ${this.filePath} could not be read (${
+            e.message
+          }). The file needs to be removed and the tokens stored again.`
+        )
+      }
+    }
+    return this.tokens
+  }
+}
+
+function installationKey (installationId: number): string {
+  return `installation/${installationId}`
+}
+
+function repoKey (owner: string, repo: string): string {
+  return `repo/${owner}/${repo}`.toLowerCase()
+}
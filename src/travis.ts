@@ -1,40 +1,67 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
-import jsonlint from 'jsonlint'
 import { Context, Logger } from 'probot'
 import { Headers } from 'request'
 import request from 'request-promise-native'
-import { promisify } from 'util'
 
-import { BuildInfo, JobInfo, StatusInfo } from './ci'
-
-const setTimeoutAsync = promisify(setTimeout)
+import { ResponseCache } from './cache'
+import {
+  AuthorizationError,
+  BuildInfo,
+  CIBuild,
+  CIProvider,
+  interpolateName,
+  JobInfo,
+  REQUEST_TIMEOUT,
+  StatusInfo
+} from './ci'
+import { SidecarConfig } from './config'
+import { getScannedOutput, waitForOutput } from './output'
+import { parseLog } from './parsers'
+import { rateLimiter } from './ratelimit'
+import { LogScanner, streamLog } from './scanner'
+import { TokenStore } from './tokens'
 
 const DEFAULT_HEADERS: Headers = { 'Travis-API-Version': 3 }
 
+const BUILD_CACHE_TTL = 60 * 1000
+const FINISHED_STATES = ['passed', 'failed', 'errored', 'canceled']
+
 // https://developer.travis-ci.com/resource/build
-interface TravisBuild {
+export interface TravisBuild {
+  readonly branch?: { readonly name: string }
+  readonly commit?: { readonly sha: string }
   readonly event_type: string
+  readonly id?: number
   readonly jobs: ReadonlyArray<TravisJob>
-}
-
-interface TravisLog {
-  readonly content: string
-  readonly log_parts: Array<{ readonly final: boolean }>
+  readonly repository?: { readonly slug: string }
 }
 
 // https://developer.travis-ci.com/resource/jobs
-interface TravisJob {
+export interface TravisJob {
   readonly allow_failure: boolean
-  readonly config: { readonly env: string }
+  readonly config: {
+    readonly env?: string
+    // Variables from `env: global:`, which jobs of a matrix share
+    readonly global_env?: string
+    readonly os?: string
+    readonly stage?: string
+  }
   readonly finished_at: string
   readonly id: number
+  readonly number?: string
+  readonly stage?: { readonly name: string }
   readonly started_at: string
   readonly state: string
 }
 
-export class Travis {
+// Builds by URI. Builds that are still running are only kept for revalidation with their ETag,
+// finished builds don't change unless restarted and are kept for a minute. Restarts from
+// Sidecar and status events for the build drop it.
+export const buildCache = new ResponseCache<TravisBuild>('travis_builds', BUILD_CACHE_TTL)
+
+export class Travis implements CIBuild {
   public static parseStatus (payload: StatusInfo): BuildInfo | undefined {
     try {
       const {
@@ -68,163 +95,310 @@ export class Travis {
     }
   }
 
+  // Drops the build from the cache, whether it was loaded with a token or without
+  public static forgetBuild (buildInfo: BuildInfo, apiUrl?: string): void {
+    const uri = `${getBaseUri(buildInfo, apiUrl)}/build/${buildInfo.id}`
+    buildCache.delete(`token ${uri}`)
+    buildCache.delete(`anonymous ${uri}`)
+  }
+
   private readonly baseUri: string
   private readonly buildInfo: BuildInfo
+  private readonly config: SidecarConfig
+  private readonly hasToken: boolean
   private readonly headers: Headers
   private readonly jobUri: string
   private readonly log: Logger
 
-  public constructor (context: Context, buildInfo: BuildInfo) {
-    this.baseUri = `https://api.${buildInfo.domain}`
+  public constructor (
+    context: Context,
+    buildInfo: BuildInfo,
+    config: SidecarConfig,
+    token?: string,
+    apiUrl?: string
+  ) {
+    this.baseUri = getBaseUri(buildInfo, apiUrl)
     this.buildInfo = buildInfo
-    this.headers = DEFAULT_HEADERS
+    this.config = config
+    this.hasToken = token !== undefined
+    this.headers = token ? { ...DEFAULT_HEADERS, Authorization: `token ${token}` } : DEFAULT_HEADERS
     this.jobUri = `https://${buildInfo.domain}/${buildInfo.owner}/${buildInfo.repo}/jobs`
     this.log = context.log
   }
 
   public async getSupportedJobs (): Promise<ReadonlyArray<JobInfo> | undefined> {
-    const buildUri = `${this.baseUri}/build/${this.buildInfo.id}?include=build.jobs,job.config`
-
     try {
-      const travisInfo = (await request({
-        headers: this.headers,
-        json: true,
-        uri: buildUri
-      }).promise()) as TravisBuild
-
-      if (travisInfo.event_type === 'pull_request') {
-        return travisInfo.jobs.map(this.getJobInfo, this).filter(present)
-      } else {
-        this.log.info(`Build for event '${travisInfo.event_type}' will not be processed`)
-        return undefined
-      }
+      return this.getJobs(await this.getBuild())
     } catch (e) {
-      this.log.error(e, `Failed to load job info for build ${this.buildInfo.id}`)
+      // Travis answers 404 rather than 403 for private builds when unauthenticated
+      if ([401, 403, 404].includes(e.statusCode)) {
+        throw new AuthorizationError(
+          this.getAuthorizationMessage(`loading build ${this.buildInfo.id}`)
+        )
+      }
+      throw e
+    }
+  }
+
+  // The jobs of a build that set the check name variable, undefined if the build's event isn't
+  // mirrored
+  public getJobs (build: TravisBuild): ReadonlyArray<JobInfo> | undefined {
+    if (!this.config.events.includes(build.event_type)) {
+      this.log.info(`Build for event '${build.event_type}' will not be processed`)
       return undefined
     }
+
+    const branch = build.event_type === 'push' && build.branch ? build.branch.name : undefined
+    return build.jobs.map(j => this.getJobInfo(j, branch)).filter(present)
   }
 
   public async getJobOutput (jobInfo: JobInfo): Promise<object | undefined> {
-    let tries = 10
-    while (tries > 0) {
-      await setTimeoutAsync(3_000)
-      try {
-        return await this.getJobOutputImpl(jobInfo)
-      } catch (e) {
-        tries -= 1
-        if (tries > 0) {
-          this.log.debug(`Retrying incomplete operation in 3s (${tries} tries left)`)
-        }
-      }
+    // The scanner is kept across retries so that each one only fetches what was added to the log
+    const scanner = new LogScanner(this.log, jobInfo.jobId, {
+      endMarker: 'Your build exited',
+      fence: this.config.outputFence
+    })
+    return waitForOutput(this.log, jobInfo.jobId, this.config.outputTimeout * 1000, () =>
+      this.getJobOutputImpl(jobInfo, scanner)
+    )
+  }
+
+  // Reads the output of a job from a log that is already complete, such as a downloaded one
+  public async getOutputFromLog (jobInfo: JobInfo, content: string): Promise<object | undefined> {
+    const scanner = new LogScanner(this.log, jobInfo.jobId, { fence: this.config.outputFence })
+    scanner.write(Buffer.from(content))
+    scanner.end()
+    if (scanner.inBlock) {
+      throw new Error(`Log of job ${jobInfo.jobId} ends inside a fenced block that isn't closed`)
     }
+    return this.getOutput(jobInfo, scanner, async () => content)
+  }
 
-    throw new Error(`Log stream for job ${jobInfo.jobId} never completed successfully`)
+  public async getJobLog (jobId: string): Promise<string> {
+    this.log.debug(`Getting log for job ${jobId}`)
+    return (await this.call(true, () =>
+      request({
+        headers: this.headers,
+        timeout: REQUEST_TIMEOUT,
+        uri: `${this.baseUri}/job/${jobId}/log.txt`
+      }).promise()
+    )) as string
   }
 
-  private async getJobOutputImpl (jobInfo: JobInfo): Promise<object | undefined> {
-    const jobId = jobInfo.jobId
-    const logUri = `${this.baseUri}/job/${jobId}/log`
-    let outputString = ''
-    let lineCount = 0
-    let blockStarted = false
-
-    this.log.debug(`Getting log stream for job ${jobId}`)
-    const logData = (await request({
-      headers: this.headers,
-      json: true,
-      uri: logUri
-    }).promise()) as TravisLog
-
-    const lastPart = logData.log_parts[logData.log_parts.length - 1]
-    if (!lastPart.final && !logData.log_parts.find(p => p.final)) {
-      this.log.debug(`Log stream for job ${jobId} was incomplete`)
-      throw new Error('LogStreamIncomplete')
+  public async cancelBuild (): Promise<void> {
+    buildCache.delete(this.getBuildCacheKey())
+    await this.post(`build/${this.buildInfo.id}/cancel`, `cancelling build ${this.buildInfo.id}`)
+  }
+
+  public async restartBuild (): Promise<void> {
+    buildCache.delete(this.getBuildCacheKey())
+    await this.post(`build/${this.buildInfo.id}/restart`, `restarting build ${this.buildInfo.id}`)
+  }
+
+  public async restartJob (jobId: string): Promise<void> {
+    buildCache.delete(this.getBuildCacheKey())
+    await this.post(`job/${jobId}/restart`, `restarting job ${jobId}`)
+  }
+
+  private async getBuild (): Promise<TravisBuild> {
+    const key = this.getBuildCacheKey()
+    const cached = buildCache.get(key)
+    if (cached && cached.fresh) {
+      return cached.value
     }
 
-    for (const line of splitIter(logData.content, /\r?\n/g)) {
-      lineCount += 1
-      const trimmed = line.trim()
-      if (!blockStarted && trimmed === '---output') {
-        this.log.debug(`Fenced output block detected for job ${jobId} at line ${lineCount}`)
-        blockStarted = true
-      } else if (blockStarted && trimmed === '---') {
-        this.log.debug(`Detected end of fenced output block for job ${jobId} at line ${lineCount}`)
-        try {
-          return JSON.parse(outputString)
-        } catch (e) {
-          const betterError = getJSONLintError(outputString, e)
-          this.log.error(betterError, `Failed to parse JSON object`)
-          this.log.debug(outputString)
-          throw e
-        }
-      } else if (blockStarted) {
-        outputString += trimmed
-      } else if (trimmed.includes('Your build exited')) {
-        this.log.debug(
-          `Finished getting log stream for job ${jobId}, no output block detected in ${lineCount} lines`
-        )
-        return undefined
+    try {
+      const response = await this.call(true, () =>
+        request({
+          headers:
+            cached && cached.etag
+              ? { ...this.headers, 'If-None-Match': cached.etag }
+              : this.headers,
+          json: true,
+          resolveWithFullResponse: true,
+          timeout: REQUEST_TIMEOUT,
+          uri: `${this.baseUri}/build/${this.buildInfo.id}?include=build.jobs,job.config`
+        }).promise()
+      )
+
+      const build = response.body as TravisBuild
+      buildCache.set(key, build, response.headers.etag, getBuildTtl(build))
+      return build
+    } catch (e) {
+      if (cached && e.statusCode === 304) {
+        buildCache.revalidate(key, getBuildTtl(cached.value))
+        return cached.value
+      }
+      throw e
+    }
+  }
+
+  // Responses for private builds depend on the token, so builds are cached separately for
+  // requests made with one
+  private getBuildCacheKey (): string {
+    return `${this.hasToken ? 'token' : 'anonymous'} ${this.baseUri}/build/${this.buildInfo.id}`
+  }
+
+  // Travis limits requests per API host
+  private call<T> (idempotent: boolean, makeRequest: () => Promise<T>): Promise<T> {
+    return rateLimiter.run(`travis/${this.buildInfo.domain}`, this.log, idempotent, makeRequest)
+  }
+
+  // `action` describes the request for logs and error messages, e.g. "restarting job 123"
+  private async post (resource: string, action: string): Promise<void> {
+    this.log.info(`${action[0].toUpperCase()}${action.substr(1)} on ${this.buildInfo.domain}`)
+    try {
+      await this.call(false, () =>
+        request({
+          headers: this.headers,
+          json: true,
+          method: 'POST',
+          timeout: REQUEST_TIMEOUT,
+          uri: `${this.baseUri}/${resource}`
+        }).promise()
+      )
+    } catch (e) {
+      if ([401, 403, 404].includes(e.statusCode)) {
+        throw new AuthorizationError(this.getAuthorizationMessage(action))
       }
+      throw e
     }
+  }
 
-    this.log.debug(`Log stream for job ${jobId} was incomplete`)
-    throw new Error('LogStreamIncomplete')
+  private async getJobOutputImpl (
+    jobInfo: JobInfo,
+    scanner: LogScanner
+  ): Promise<object | undefined> {
+    const jobId = jobInfo.jobId
+    this.log.debug(`Getting log stream for job ${jobId} from byte ${scanner.bytesScanned}`)
+    // Retries resume from where the scanner stopped
+    await this.call(true, () =>
+      streamLog(`${this.baseUri}/job/${jobId}/log.txt`, this.headers, scanner)
+    )
+    return this.getOutput(jobInfo, scanner, () => this.getJobLog(jobId))
   }
 
-  private getJobInfo (job: TravisJob): JobInfo | undefined {
-    const jobName = this.extractName(job.config.env)
-    if (!jobName) {
+  // Output from the scanned log, or from the job's parser if it has no fenced output
+  private async getOutput (
+    jobInfo: JobInfo,
+    scanner: LogScanner,
+    getLog: () => Promise<string>
+  ): Promise<object | undefined> {
+    const jobId = jobInfo.jobId
+    const { owner, repo } = this.buildInfo
+    const workingDirectory = `/home/travis/build/${owner}/${repo}`
+    const output = await getScannedOutput(this.log, jobId, scanner, {
+      buildInfo: this.buildInfo,
+      fence: this.config.outputFence,
+      workingDirectory
+    })
+    if (output || !jobInfo.parser) {
+      return output
+    }
+
+    // Parsers need the whole log, which is only fetched for jobs without fenced output
+    this.log.debug(`No fenced output for job ${jobId}, parsing log with '${jobInfo.parser}'`)
+    const content = await getLog()
+    return parseLog(jobInfo.parser, content, this.buildInfo, workingDirectory)
+  }
+
+  // `action` describes the failed request, e.g. "loading build 123"
+  private getAuthorizationMessage (action: string): string {
+    const { domain, owner, repo } = this.buildInfo
+    if (this.hasToken) {
+      return `The Travis API token configured for ${owner}/${repo} was rejected by ${domain} while ${action}. Check that the token is still valid and has access to this repository.`
+    } else if (!action.startsWith('loading')) {
+      return `${domain} refused ${action}. Changing builds requires a Travis API token to be configured for ${owner}/${repo} or its installation.`
+    } else {
+      return `${domain} refused ${action}. If this is a private repository, a Travis API token must be configured for ${owner}/${repo} or its installation.`
+    }
+  }
+
+  private getJobInfo (job: TravisJob, branch?: string): JobInfo | undefined {
+    const template = this.extractVariable(job, this.config.checkNameVariable)
+    if (!template) {
       return undefined
     }
 
+    // Names may include the job's other variables and the ones Travis sets for its OS and stage
+    const builtIn: { [name: string]: string | undefined } = {
+      TRAVIS_BUILD_STAGE_NAME: job.stage ? job.stage.name : job.config.stage,
+      TRAVIS_JOB_NUMBER: job.number,
+      TRAVIS_OS_NAME: job.config.os || 'linux'
+    }
+    const jobName = interpolateName(
+      template,
+      name => builtIn[name] || this.extractVariable(job, name)
+    )
+
     this.log.debug(`Detected Job '${jobName}' in state '${job.state}'`)
     return {
+      branch,
       finishedAt: job.finished_at,
       ignoreFailure: job.allow_failure,
       jobId: job.id.toString(),
       name: jobName,
+      parser: this.extractVariable(job, this.config.checkParserVariable),
       startedAt: job.started_at || new Date().toISOString(),
       state: job.state,
       url: `${this.jobUri}/${job.id}`
     }
   }
 
-  private extractName (env: string): string | undefined {
-    const match = /CHECK_NAME=('.*?'|".*?"|\S+)/g.exec(env)
-    if (match) {
-      return match[1].replace(/["']/g, '')
-    } else {
-      return undefined
+  // The job's own variables take precedence over the global ones
+  private extractVariable (job: TravisJob, variable: string): string | undefined {
+    const pattern = new RegExp(`\\b${variable}=('.*?'|".*?"|\\S+)`)
+    for (const env of [job.config.env, job.config.global_env]) {
+      const match = pattern.exec(env || '')
+      if (match) {
+        return match[1].replace(/["']/g, '')
+      }
     }
+    return undefined
   }
 }
 
-function present<T> (input: null | undefined | T): input is T {
-  return input != undefined
-}
+// `apiUrl` replaces the API of both Travis domains, so that recorded builds can be replayed from
+// a local server
+export function createTravisProvider (tokens: TokenStore, apiUrl?: string): CIProvider {
+  return {
+    domains: ['travis-ci.com', 'travis-ci.org'],
+    name: 'travis',
+    restartKeepsJobIds: true,
+    statusContexts: [
+      'continuous-integration/travis-ci/pr',
+      'continuous-integration/travis-ci/push'
+    ],
 
-function* splitIter (input: string, regex: RegExp): IterableIterator<string> {
-  let last = 0
-  while (true) {
-    const result = regex.exec(input)
-    if (!result) {
-      if (last <= input.length) {
-        yield input.substr(last, input.length - last)
-      }
-      return
-    }
+    createBuild (context: Context, buildInfo: BuildInfo, config: SidecarConfig): CIBuild {
+      const installation = context.payload.installation
+      const token = tokens.get(installation && installation.id, buildInfo.owner, buildInfo.repo)
+      return new Travis(context, buildInfo, config, token, apiUrl)
+    },
+
+    forgetBuild (buildInfo: BuildInfo): void {
+      Travis.forgetBuild(buildInfo, apiUrl)
+    },
 
-    yield input.substr(last, result.index - last)
-    last = regex.lastIndex
+    // Travis builds are always found by the repository
+    parseProject (_: string): string | undefined {
+      return undefined
+    },
+
+    parseStatus (status: StatusInfo): BuildInfo | undefined {
+      return Travis.parseStatus(status)
+    }
   }
 }
 
-function getJSONLintError (text: string, original: Error): Error {
-  try {
-    jsonlint.parse(text)
-  } catch (e) {
-    return e
-  }
+function getBaseUri (buildInfo: BuildInfo, apiUrl?: string): string {
+  return apiUrl || `https://api.${buildInfo.domain}`
+}
+
+function present<T> (input: null | undefined | T): input is T {
+  return input != undefined
+}
 
-  return original
+function getBuildTtl (build: TravisBuild): number {
+  return build.jobs.every(j => FINISHED_STATES.includes(j.state)) ? BUILD_CACHE_TTL : 0
 }
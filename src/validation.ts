@@ -0,0 +1,142 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+// Limits imposed by the Checks API on output fields
+export const MAX_TEXT_LENGTH = 65535
+
+const OUTPUT_PROPERTIES = ['annotations', 'images', 'summary', 'text', 'title']
+const ANNOTATION_PROPERTIES = [
+  'blob_href',
+  'end_line',
+  'filename',
+  'message',
+  'raw_details',
+  'start_line',
+  'title',
+  'warning_level'
+]
+const IMAGE_PROPERTIES = ['alt', 'caption', 'image_url']
+const WARNING_LEVELS = ['notice', 'warning', 'failure']
+
+// A parsed JSON value, or an object whose properties are yet to be checked
+type JsonValue = string | number | boolean | object | undefined
+
+interface JsonObject {
+  readonly [key: string]: JsonValue
+}
+
+// Checks a fenced output block against the Checks API output object schema, returning a
+// description of each problem found. `title` and `summary` are required by the API but may be
+// left to other blocks, so their presence is checked once blocks have been merged.
+export function validateOutput (parsed: JsonValue): string[] {
+  const errors: string[] = []
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return ['The output must be a JSON object']
+  }
+  const output = parsed as JsonObject
+
+  checkProperties(output, OUTPUT_PROPERTIES, '', errors)
+  checkString(output, 'title', '', false, undefined, errors)
+  checkString(output, 'summary', '', false, MAX_TEXT_LENGTH, errors)
+  checkString(output, 'text', '', false, MAX_TEXT_LENGTH, errors)
+
+  checkArray(output, 'annotations', errors, (annotation, path) => {
+    checkProperties(annotation, ANNOTATION_PROPERTIES, path, errors)
+    checkString(annotation, 'filename', path, true, undefined, errors)
+    checkString(annotation, 'blob_href', path, true, undefined, errors)
+    checkString(annotation, 'message', path, true, MAX_TEXT_LENGTH, errors)
+    checkString(annotation, 'title', path, false, undefined, errors)
+    checkString(annotation, 'raw_details', path, false, MAX_TEXT_LENGTH, errors)
+    const start = checkLine(annotation, 'start_line', path, errors)
+    const end = checkLine(annotation, 'end_line', path, errors)
+    if (start !== undefined && end !== undefined && end < start) {
+      errors.push(`\`${path}end_line\` must not be before \`${path}start_line\``)
+    }
+    if (!WARNING_LEVELS.includes(annotation.warning_level as string)) {
+      errors.push(
+        `\`${path}warning_level\` must be one of ${WARNING_LEVELS.map(l => `\`${l}\``).join(', ')}`
+      )
+    }
+  })
+
+  checkArray(output, 'images', errors, (image, path) => {
+    checkProperties(image, IMAGE_PROPERTIES, path, errors)
+    checkString(image, 'alt', path, true, undefined, errors)
+    checkString(image, 'image_url', path, true, undefined, errors)
+    checkString(image, 'caption', path, false, undefined, errors)
+  })
+
+  return errors
+}
+
+function checkProperties (
+  value: JsonObject,
+  allowed: ReadonlyArray<string>,
+  path: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`\`${path}${key}\` is not a recognized property`)
+    }
+  }
+}
+
+function checkString (
+  value: JsonObject,
+  key: string,
+  path: string,
+  required: boolean,
+  maxLength: number | undefined,
+  errors: string[]
+): void {
+  const field = value[key]
+  if (field === undefined) {
+    if (required) {
+      errors.push(`\`${path}${key}\` is required`)
+    }
+  } else if (typeof field !== 'string') {
+    errors.push(`\`${path}${key}\` must be a string`)
+  } else if (maxLength !== undefined && field.length > maxLength) {
+    errors.push(`\`${path}${key}\` must be at most ${maxLength} characters long`)
+  }
+}
+
+function checkLine (
+  value: JsonObject,
+  key: string,
+  path: string,
+  errors: string[]
+): number | undefined {
+  const field = value[key]
+  if (typeof field === 'number' && Number.isInteger(field) && field >= 1) {
+    return field
+  }
+  errors.push(`\`${path}${key}\` must be a positive integer`)
+  return undefined
+}
+
+function checkArray (
+  value: JsonObject,
+  key: string,
+  errors: string[],
+  checkItem: (item: JsonObject, path: string) => void
+): void {
+  const field = value[key]
+  if (field === undefined) {
+    return
+  }
+
+  if (!Array.isArray(field)) {
+    errors.push(`\`${key}\` must be an array`)
+    return
+  }
+
+  field.forEach((item, i) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`\`${key}[${i}]\` must be an object`)
+    } else {
+      checkItem(item as JsonObject, `${key}[${i}].`)
+    }
+  })
+}
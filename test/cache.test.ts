@@ -0,0 +1,67 @@
+import { ResponseCache } from '../src/cache'
+import { metrics } from '../src/metrics'
+
+function count(result: string) {
+  return metrics.get('cache_requests_total', { cache: 'test', result })
+}
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    metrics.reset()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('counts fresh responses as hits and fetched ones as misses', () => {
+    const cache = new ResponseCache<string>('test', 1000)
+    expect(cache.get('a')).toBeUndefined()
+    cache.set('a', 'value', '"etag"')
+
+    expect(cache.get('a')).toEqual({ etag: '"etag"', fresh: true, value: 'value' })
+    expect(count('hit')).toBe(1)
+    expect(count('miss')).toBe(1)
+  })
+
+  test('returns stale responses for revalidation', () => {
+    const now = Date.now()
+    const cache = new ResponseCache<string>('test', 1000)
+    cache.set('a', 'value', '"etag"')
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2000)
+    expect(cache.get('a')).toEqual({ etag: '"etag"', fresh: false, value: 'value' })
+    cache.revalidate('a')
+    expect(cache.get('a')).toMatchObject({ fresh: true })
+    expect(count('revalidated')).toBe(1)
+    expect(count('hit')).toBe(1)
+  })
+
+  test('only keeps responses with a TTL of 0 for revalidation', () => {
+    const cache = new ResponseCache<string>('test', 1000)
+    cache.set('a', 'value', '"etag"', 0)
+    expect(cache.get('a')).toMatchObject({ fresh: false })
+  })
+
+  test('writes changes through to cached responses and drops their ETag', () => {
+    const cache = new ResponseCache<string[]>('test', 1000)
+    cache.update('a', v => [...v, 'ignored'])
+    expect(cache.size).toBe(0)
+
+    cache.set('a', ['one'], '"etag"')
+    cache.update('a', v => [...v, 'two'])
+    expect(cache.get('a')).toEqual({ etag: undefined, fresh: true, value: ['one', 'two'] })
+  })
+
+  test('drops the oldest responses beyond the entry limit', () => {
+    const cache = new ResponseCache<number>('test', 1000, 2)
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.set('a', 3)
+    cache.set('c', 4)
+
+    expect(cache.size).toBe(2)
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('a')).toMatchObject({ value: 3 })
+  })
+})
@@ -0,0 +1,69 @@
+import { JobInfo } from '../src/ci'
+import { findJobByCheckName, getStatusTable, parseCommand } from '../src/commands'
+
+const job = (jobId: string, name: string, state: string): JobInfo => ({
+  finishedAt: '2018-07-01T00:01:00Z',
+  ignoreFailure: false,
+  jobId,
+  name,
+  startedAt: '2018-07-01T00:00:00Z',
+  state,
+  url: `https://travis-ci.org/o/r/jobs/${jobId}`
+})
+
+const prefixed = (j: JobInfo) => `CI: ${j.name}`
+
+describe('parseCommand', () => {
+  const parse = (body: string) => parseCommand(body, '/ci', '/please rescan')
+
+  test('parses subcommands and check names', () => {
+    expect(parse('/ci rescan')).toEqual({ checkName: undefined, name: 'rescan' })
+    expect(parse('/CI Rescan  Unit tests\nthanks!')).toEqual({
+      checkName: 'Unit tests',
+      name: 'rescan'
+    })
+    expect(parse('/ci restart Lint')).toEqual({ checkName: 'Lint', name: 'restart' })
+    expect(parse('/ci cancel')).toEqual({ name: 'cancel' })
+    expect(parse('/ci status')).toEqual({ name: 'status' })
+  })
+
+  test('accepts the configured rescan command', () => {
+    expect(parse('/please rescan')).toEqual({ name: 'rescan' })
+  })
+
+  test('answers unknown or incomplete commands with help', () => {
+    expect(parse('/ci')).toEqual({ name: 'help' })
+    expect(parse('/ci deploy')).toEqual({
+      error: '`/ci deploy` is not a known command.',
+      name: 'help'
+    })
+    expect(parse('/ci restart')).toHaveProperty('name', 'help')
+  })
+
+  test('ignores other comments', () => {
+    expect(parse('LGTM')).toBeUndefined()
+    expect(parse('/cid rescan')).toBeUndefined()
+  })
+})
+
+describe('findJobByCheckName', () => {
+  const jobs = [job('1', 'Lint', 'passed'), job('2', 'Unit tests', 'failed')]
+
+  test('matches check names with or without the prefix', () => {
+    expect(findJobByCheckName(jobs, 'ci: unit tests', prefixed)).toBe(jobs[1])
+    expect(findJobByCheckName(jobs, 'lint', prefixed)).toBe(jobs[0])
+    expect(findJobByCheckName(jobs, 'Deploy', prefixed)).toBeUndefined()
+  })
+})
+
+describe('getStatusTable', () => {
+  test('lists jobs and their checks', () => {
+    expect(getStatusTable([job('1', 'Lint | style', 'passed')], prefixed)).toBe(
+      [
+        '| Job | Check | State |',
+        '| --- | --- | --- |',
+        '| [1](https://travis-ci.org/o/r/jobs/1) | CI: Lint \\| style | passed |'
+      ].join('\n')
+    )
+  })
+})
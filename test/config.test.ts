@@ -0,0 +1,40 @@
+import { ConfigError, DEFAULT_CONFIG, loadConfig } from '../src/config'
+
+function contextWith (config: () => Promise<any>): any {
+  return { config }
+}
+
+describe('loadConfig', () => {
+  test('uses defaults when the file is missing', async () => {
+    expect(await loadConfig(contextWith(async () => null))).toBe(DEFAULT_CONFIG)
+  })
+
+  test('merges settings over the defaults', async () => {
+    const config = await loadConfig(
+      contextWith(async () => ({ checkNamePrefix: 'CI: ', events: ['push'] }))
+    )
+    expect(config).toEqual({ ...DEFAULT_CONFIG, checkNamePrefix: 'CI: ', events: ['push'] })
+  })
+
+  test('reports every invalid setting', async () => {
+    const load = loadConfig(
+      contextWith(async () => ({ checkNameVariable: 'NOT VALID', events: ['tag'], extra: 1 }))
+    )
+    await expect(load).rejects.toBeInstanceOf(ConfigError)
+    await expect(load).rejects.toHaveProperty(
+      'message',
+      expect.stringMatching(/`extra`[^]*`checkNameVariable`[^]*`events`/)
+    )
+  })
+
+  test('reports YAML syntax errors', async () => {
+    const yamlError = Object.assign(new Error('bad indentation'), { name: 'YAMLException' })
+    await expect(
+      loadConfig(
+        contextWith(async () => {
+          throw yamlError
+        })
+      )
+    ).rejects.toHaveProperty('message', expect.stringContaining('bad indentation'))
+  })
+})
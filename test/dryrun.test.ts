@@ -0,0 +1,92 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { dryRun, hasInvalidOutput, parseArgs } from '../src/dryrun'
+
+const FIXTURE = path.join(__dirname, 'replay', 'fixtures', 'travis-pull-request')
+
+function createLog() {
+  return { debug: jest.fn(), error: jest.fn(), info: jest.fn(), warn: jest.fn() } as any
+}
+
+function writeFiles(files: { [name: string]: string }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dryrun-'))
+  for (const name of Object.keys(files)) {
+    fs.writeFileSync(path.join(dir, name), files[name])
+  }
+  return dir
+}
+
+describe('parseArgs', () => {
+  test('reads options and logs', () => {
+    expect(parseArgs(['--name', 'Lint', 'job.log', '--verbose'])).toEqual({
+      domain: 'travis-ci.com',
+      logs: ['job.log'],
+      name: 'Lint',
+      verbose: true
+    })
+    expect(parseArgs(['--build', 'build.json', '1.log', '2.log']).logs).toEqual(['1.log', '2.log'])
+  })
+
+  test('rejects unknown options and more than one log without a build', () => {
+    expect(() => parseArgs(['--nope', 'job.log'])).toThrow('Unknown option')
+    expect(() => parseArgs(['1.log', '2.log'])).toThrow('Exactly one log')
+    expect(() => parseArgs(['--repo', 'repo', 'job.log'])).toThrow('owner/repo')
+  })
+})
+
+describe('dryRun', () => {
+  test('prints the check runs of a build whose logs are given', async () => {
+    const build = JSON.parse(fs.readFileSync(path.join(FIXTURE, 'travis.json'), 'utf8'))[
+      'GET /build/100'
+    ].body
+    const dir = writeFiles({
+      '102.log': fs.readFileSync(path.join(FIXTURE, 'job-102.log'), 'utf8'),
+      'build.json': JSON.stringify(build),
+      'sidecar.yml': 'summaryCheckName: CI\n'
+    })
+    const log = createLog()
+
+    const requests = await dryRun(
+      {
+        build: path.join(dir, 'build.json'),
+        config: path.join(dir, 'sidecar.yml'),
+        domain: 'travis-ci.org',
+        logs: [path.join(dir, '102.log')],
+        repo: 'octocat/hello-world',
+        verbose: false
+      },
+      log
+    )
+
+    expect(requests.map(r => [r.method, r.params.name, r.params.conclusion])).toEqual([
+      ['create', 'Unit tests', 'success'],
+      ['create', 'Lint', 'failure'],
+      ['create', 'CI', 'failure']
+    ])
+    expect(requests[1].params.output.title).toBe('1 errors, 1 warnings')
+    expect(requests[1].params.details_url).toBe(
+      'https://travis-ci.org/octocat/hello-world/jobs/102'
+    )
+    expect(log.warn).toHaveBeenCalledWith("No log given for job 101 ('Unit tests')")
+    expect(hasInvalidOutput(requests)).toBe(false)
+  })
+
+  test('reports JSON errors in a single log', async () => {
+    const dir = writeFiles({
+      'job.log':
+        '---output\n{ "title": "T" "summary": "S" }\n---\nDone. Your build exited with 1.\n'
+    })
+
+    const requests = await dryRun(
+      { domain: 'travis-ci.com', logs: [path.join(dir, 'job.log')], name: 'Lint', verbose: false },
+      createLog()
+    )
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].params).toMatchObject({ conclusion: 'failure', name: 'Lint' })
+    expect(requests[0].params.output.summary).toContain('Invalid JSON on line 2')
+    expect(hasInvalidOutput(requests)).toBe(true)
+  })
+})
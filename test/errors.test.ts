@@ -0,0 +1,11 @@
+import { RecentErrors } from '../src/errors'
+
+describe('RecentErrors', () => {
+  test('lists the newest errors first and drops the oldest beyond the limit', () => {
+    const errors = new RecentErrors(2)
+    for (const message of ['a', 'b', 'c']) {
+      errors.add({ buildId: '1', message, occurredAt: '', operation: 'createCheck', repo: 'o/r' })
+    }
+    expect(errors.list().map(e => e.message)).toEqual(['c', 'b'])
+  })
+})
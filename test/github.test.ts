@@ -0,0 +1,602 @@
+import { JobInfo } from '../src/ci'
+import { DEFAULT_CONFIG } from '../src/config'
+import { recentErrors } from '../src/errors'
+import { checkRunCache, GitHub } from '../src/github'
+import { JobHistory } from '../src/history'
+import { metrics } from '../src/metrics'
+import { LogIncompleteError } from '../src/output'
+import { RateLimitError } from '../src/ratelimit'
+
+const buildInfo = { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' }
+
+const job: JobInfo = {
+  finishedAt: '2018-07-01T00:01:00Z',
+  ignoreFailure: false,
+  jobId: '2',
+  name: 'Lint',
+  startedAt: '2018-07-01T00:00:00Z',
+  state: 'failed',
+  url: 'https://travis-ci.org/o/r/jobs/2'
+}
+
+function annotations(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    blob_href: 'https://github.com/o/r/blob/abc123/index.js',
+    end_line: i + 1,
+    filename: 'index.js',
+    message: `Problem ${i}`,
+    start_line: i + 1,
+    warning_level: 'failure'
+  }))
+}
+
+beforeEach(() => {
+  checkRunCache.clear()
+  metrics.reset()
+  recentErrors.clear()
+})
+
+function createContext() {
+  const github = {
+    checks: {
+      create: jest.fn().mockResolvedValue({ data: { id: 10 } }),
+      update: jest.fn().mockResolvedValue({ data: { id: 10 } })
+    }
+  }
+  const log = { debug: jest.fn(), error: jest.fn(), info: jest.fn(), warn: jest.fn() }
+  return { github, log } as any
+}
+
+describe('GitHub.createCheck', () => {
+  test('adds annotations beyond the first 50 in batches', async () => {
+    const context = createContext()
+    const output = { annotations: annotations(120), summary: 'S', title: 'T' }
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => output)
+
+    expect(await github.createCheck(job)).toBe('10')
+    expect(context.github.checks.create.mock.calls[0][0].output.annotations).toHaveLength(50)
+    expect(
+      context.github.checks.update.mock.calls.map((c: any) => c[0].output.annotations.length)
+    ).toEqual([50, 20])
+    expect(context.github.checks.update.mock.calls[0][0].check_run_id).toBe('10')
+  })
+
+  test('truncates annotations over the configured limit', async () => {
+    const context = createContext()
+    const output = { annotations: annotations(60), summary: 'S', title: 'T' }
+    const config = { ...DEFAULT_CONFIG, annotationLimit: 55 }
+    const github = new GitHub(1, context, buildInfo, config, async () => output)
+
+    await github.createCheck(job)
+    const created = context.github.checks.create.mock.calls[0][0]
+    expect(created.output.summary).toBe(
+      'S\n\n_Showing 55 of 60 annotations, the remaining 5 were omitted._'
+    )
+    expect(
+      context.github.checks.update.mock.calls.map((c: any) => c[0].output.annotations.length)
+    ).toEqual([5])
+  })
+
+  test('counts created checks and keeps errors for the admin routes', async () => {
+    const context = createContext()
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => {
+      throw new Error('Log unavailable')
+    })
+
+    await github.createCheck(job)
+    context.github.checks.create.mockRejectedValueOnce(new Error('Bad request'))
+    await github.createCheck(job)
+
+    expect(metrics.get('checks_created_total')).toBe(1)
+    expect(recentErrors.list().map(e => [e.operation, e.message])).toEqual([
+      ['createCheck', 'Bad request'],
+      ['getJobOutput', 'Log unavailable'],
+      ['getJobOutput', 'Log unavailable']
+    ])
+    expect(recentErrors.list()[0]).toMatchObject({ buildId: '1', jobId: '2', repo: 'o/r' })
+  })
+})
+
+describe('GitHub.updateCheck', () => {
+  function createContextWithChecks(checkRuns: object[]) {
+    const context = createContext()
+    context.github.checks.listForRef = jest
+      .fn()
+      .mockResolvedValue({ data: { check_runs: checkRuns }, headers: {} })
+    context.github.paginate = jest.fn(async (request: Promise<any>, map: any) => map(await request))
+    return context
+  }
+
+  function checkRun(id: number, status: string, completedAt?: string) {
+    return {
+      app: { id: 1 },
+      completed_at: completedAt,
+      external_id: 'travis-ci.org/1/2',
+      id,
+      name: 'Lint',
+      output: {},
+      status
+    }
+  }
+
+  test('updates the newest existing check run for a job', async () => {
+    const context = createContextWithChecks([checkRun(3, 'queued'), checkRun(4, 'in_progress')])
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+
+    const jobs = await github.checksToCreate([job])
+    expect(jobs).toEqual([job])
+    expect(await github.updateCheck(job)).toBe('4')
+    expect(context.github.checks.create).not.toHaveBeenCalled()
+
+    const updated = context.github.checks.update.mock.calls[0][0]
+    expect(updated.check_run_id).toBe('4')
+    expect(updated.status).toBe('completed')
+    expect(updated.conclusion).toBe('failure')
+    expect(updated.head_sha).toBeUndefined()
+    expect(updated.actions.map((a: any) => a.identifier)).toEqual([
+      'restart_job',
+      'cancel_build',
+      'show_log'
+    ])
+  })
+
+  test('creates a new check run when a completed job is rerun', async () => {
+    const context = createContextWithChecks([checkRun(4, 'completed', job.finishedAt)])
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+    const rerun = { ...job, state: 'started' }
+
+    expect(await github.checksToCreate([job])).toEqual([])
+    expect(await github.checksToCreate([rerun])).toEqual([rerun])
+    expect(await github.updateCheck(rerun)).toBe('10')
+    expect(context.github.checks.create.mock.calls[0][0].status).toBe('in_progress')
+
+    // Later transitions of the rerun update the check run that was just created
+    await github.updateCheck(job)
+    expect(context.github.checks.update.mock.calls[0][0].check_run_id).toBe('10')
+  })
+
+  test('leaves the annotations of a completed check run alone when it is updated again', async () => {
+    const context = createContextWithChecks([checkRun(4, 'completed', job.finishedAt)])
+    const output = { annotations: annotations(60), summary: 'S', title: 'T' }
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => output)
+
+    // A rescan of the check forces an update although nothing changed
+    await github.checksToCreate([job])
+    expect(await github.updateCheck(job)).toBe('4')
+    expect(context.github.checks.update).toHaveBeenCalledTimes(1)
+    expect(context.github.checks.update.mock.calls[0][0].output).toEqual({
+      annotations: [],
+      summary: 'S',
+      title: 'T'
+    })
+  })
+
+  test('writes its own changes through to the cached check runs', async () => {
+    const context = createContextWithChecks([checkRun(4, 'in_progress')])
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+    await github.checksToCreate([job])
+    await github.updateCheck(job)
+
+    // A status for the same commit finds the completed check without listing check runs again
+    const next = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+    expect(await next.checksToCreate([job])).toEqual([])
+    expect(context.github.checks.listForRef).toHaveBeenCalledTimes(1)
+  })
+
+  test('revalidates stale check runs with their ETag', async () => {
+    const now = Date.now()
+    const context = createContextWithChecks([checkRun(4, 'completed', job.finishedAt)])
+    context.github.checks.listForRef.mockResolvedValueOnce({
+      data: { check_runs: [checkRun(4, 'completed', job.finishedAt)] },
+      headers: { etag: '"a"' }
+    })
+    await new GitHub(1, context, buildInfo, DEFAULT_CONFIG).checksToCreate([job])
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 60 * 1000)
+    context.github.checks.listForRef.mockRejectedValueOnce(
+      Object.assign(new Error('Not modified'), { code: 304 })
+    )
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+    expect(await github.checksToCreate([job])).toEqual([])
+    expect(context.github.checks.listForRef.mock.calls[1][0].headers).toEqual({
+      'If-None-Match': '"a"'
+    })
+    jest.restoreAllMocks()
+  })
+})
+
+describe('GitHub history', () => {
+  test('records completed jobs and notes how the step did on the history branch', async () => {
+    const earlier = {
+      branch: 'main',
+      buildId: '0',
+      domain: 'travis-ci.org',
+      finishedAt: '2018-06-30T00:00:00Z',
+      headSha: 'def456',
+      name: 'Lint',
+      repo: 'o/r'
+    }
+    const store = {
+      load: jest.fn(() => [
+        { ...earlier, conclusion: 'failure', duration: 30000, jobId: '1' },
+        { ...earlier, conclusion: 'success', duration: 90000, jobId: '2' }
+      ]),
+      save: jest.fn()
+    }
+    const context = createContext()
+    const output = { summary: 'S', title: 'T' }
+    const github = new GitHub(
+      1,
+      context,
+      buildInfo,
+      DEFAULT_CONFIG,
+      async () => output,
+      new JobHistory(store)
+    )
+
+    await github.createCheck(job)
+    expect(context.github.checks.create.mock.calls[0][0].output.summary).toBe(
+      'S\n\nThis step failed in 1 of the last 2 builds on `main`. This run took 1m 0s, the median is 1m 0s.'
+    )
+    expect(store.save.mock.calls[0][0][2]).toMatchObject({
+      conclusion: 'failure',
+      duration: 60000,
+      jobId: '2',
+      name: 'Lint'
+    })
+  })
+
+  test('creates checks without a note when the history cannot be read', async () => {
+    const store = {
+      load: jest.fn(() => {
+        throw new Error('Unexpected end of JSON input')
+      }),
+      save: jest.fn()
+    }
+    const context = createContext()
+    const output = { summary: 'S', title: 'T' }
+    const github = new GitHub(
+      1,
+      context,
+      buildInfo,
+      DEFAULT_CONFIG,
+      async () => output,
+      new JobHistory(store)
+    )
+
+    expect(await github.createCheck(job)).toBeDefined()
+    expect(context.github.checks.create.mock.calls[0][0].output).toEqual(output)
+    expect(context.log.error).toHaveBeenCalled()
+  })
+})
+
+describe('GitHub deferred checks', () => {
+  test('defers checks that hit a rate limit rather than dropping them', async () => {
+    const context = createContext()
+    context.github.checks.create.mockRejectedValue(new RateLimitError('Rate limited', 12345))
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+
+    expect(await github.createCheck(job)).toBeUndefined()
+    expect(github.deferredChecks).toEqual(['Lint'])
+    expect(github.deferredUntil).toBe(12345)
+    expect(context.log.error).not.toHaveBeenCalled()
+  })
+
+  test('defers completed checks whose log hit a rate limit instead of dropping their output', async () => {
+    const context = createContext()
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => {
+      throw new RateLimitError('Rate limit of travis/travis-ci.org is exhausted', 12345)
+    })
+
+    expect(await github.createCheck(job)).toBeUndefined()
+    expect(context.github.checks.create).not.toHaveBeenCalled()
+    expect(github.deferredChecks).toEqual(['Lint'])
+    expect(github.deferredUntil).toBe(12345)
+    expect(recentErrors.list()).toEqual([])
+  })
+})
+
+describe('GitHub.createQueuedCheck', () => {
+  test('creates a queued check run in place of a rerun one', async () => {
+    const context = createContext()
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG)
+
+    expect(
+      await github.createQueuedCheck({
+        details_url: job.url,
+        external_id: 'travis-ci.org/1/2',
+        head_sha: 'abc123',
+        name: 'Lint'
+      })
+    ).toBe('10')
+    expect(context.github.checks.create.mock.calls[0][0]).toMatchObject({
+      external_id: 'travis-ci.org/1/2',
+      head_sha: 'abc123',
+      name: 'Lint',
+      status: 'queued'
+    })
+  })
+})
+
+describe('GitHub.getLatestStatus', () => {
+  const contexts = ['continuous-integration/travis-ci/pr', 'continuous-integration/travis-ci/push']
+  const repository = { name: 'r', owner: { login: 'o' } }
+  const issueComment: any = { issue: { number: 5 }, repository }
+
+  function createContextWithStatuses(statuses: object[]) {
+    const context = createContext()
+    context.github.pullRequests = {
+      get: jest.fn().mockResolvedValue({ data: { head: { sha: 'abc123' } } })
+    }
+    context.github.repos = { getStatuses: jest.fn().mockResolvedValue({ data: statuses }) }
+    context.github.paginate = jest.fn(async (request: Promise<any>, map: any) =>
+      map(await request, () => undefined)
+    )
+    return context
+  }
+
+  test('prefers the pull request build over a newer push build of the same commit', async () => {
+    const context = createContextWithStatuses([
+      { context: contexts[1], target_url: 'https://travis-ci.org/o/r/builds/2' },
+      { context: 'other', target_url: 'https://example.com' },
+      { context: contexts[0], target_url: 'https://travis-ci.org/o/r/builds/1' },
+      { context: contexts[0], target_url: 'https://travis-ci.org/o/r/builds/0' }
+    ])
+
+    expect(await GitHub.getLatestStatus(context, issueComment, contexts)).toEqual({
+      repository,
+      sha: 'abc123',
+      target_url: 'https://travis-ci.org/o/r/builds/1'
+    })
+  })
+
+  test('falls back to the push build without a pull request build', async () => {
+    const context = createContextWithStatuses([
+      { context: contexts[1], target_url: 'https://travis-ci.org/o/r/builds/2' }
+    ])
+
+    expect(await GitHub.getLatestStatus(context, issueComment, contexts)).toMatchObject({
+      target_url: 'https://travis-ci.org/o/r/builds/2'
+    })
+    expect(
+      await GitHub.getLatestStatus(createContextWithStatuses([]), issueComment, contexts)
+    ).toBeUndefined()
+  })
+})
+
+describe('GitHub.parseExternalId', () => {
+  test('splits external IDs into their parts', () => {
+    expect(GitHub.parseExternalId('travis-ci.org/1/2')).toEqual({
+      buildId: '1',
+      domain: 'travis-ci.org',
+      jobId: '2'
+    })
+    expect(GitHub.parseExternalId('travis-ci.org/1')).toBeUndefined()
+    expect(GitHub.parseExternalId(undefined)).toBeUndefined()
+  })
+})
+
+describe('GitHub.addLogExcerpt', () => {
+  test('replaces the check text with the end of the log', async () => {
+    const context = createContext()
+    const config = { ...DEFAULT_CONFIG, logExcerptLines: 2 }
+    const github = new GitHub(1, context, buildInfo, config)
+    const checkRun = {
+      external_id: 'travis-ci.org/1/2',
+      head_sha: 'abc123',
+      id: 4,
+      name: 'Lint',
+      output: { summary: 'S', title: 'T' }
+    }
+
+    await github.addLogExcerpt(checkRun, 'one\ntwo\n\x1b[31mthree\x1b[0m\nfo\rfour\n\n')
+    expect(context.github.checks.update.mock.calls[0][0]).toMatchObject({
+      check_run_id: '4',
+      output: {
+        summary: 'S',
+        text: '**Last 2 lines of the log**\n\n```\nthree\nfour\n```',
+        title: 'T'
+      }
+    })
+  })
+})
+
+describe('GitHub.updateSummaryCheck', () => {
+  const config = { ...DEFAULT_CONFIG, summaryCheckName: 'All jobs' }
+  const running = { ...job, finishedAt: '', jobId: '3', name: 'Test', state: 'started' }
+
+  function createContextWithChecks(checkRuns: object[]) {
+    const context = createContext()
+    context.github.checks.listForRef = jest
+      .fn()
+      .mockResolvedValue({ data: { check_runs: checkRuns }, headers: {} })
+    context.github.paginate = jest.fn(async (request: Promise<any>, map: any) => map(await request))
+    return context
+  }
+
+  test('creates an in progress summary of every job', async () => {
+    const context = createContextWithChecks([])
+    const github = new GitHub(1, context, buildInfo, config)
+
+    expect(await github.updateSummaryCheck([job, running])).toBe('10')
+    const created = context.github.checks.create.mock.calls[0][0]
+    expect(created).toMatchObject({
+      external_id: 'travis-ci.org/1/summary',
+      name: 'All jobs',
+      started_at: job.startedAt,
+      status: 'in_progress'
+    })
+    expect(created.output.title).toBe('1 of 2 jobs finished')
+    expect(created.output.summary).toBe(
+      [
+        '| Job | State | Duration |',
+        '| --- | --- | --- |',
+        '| [Lint](https://travis-ci.org/o/r/jobs/2) | failed | 1m 0s |',
+        '| [Test](https://travis-ci.org/o/r/jobs/2) | started | running |'
+      ].join('\n')
+    )
+  })
+
+  test('completes the existing summary with a conclusion that respects allowed failures', async () => {
+    const context = createContextWithChecks([
+      {
+        app: { id: 1 },
+        external_id: 'travis-ci.org/1/summary',
+        id: 7,
+        name: 'All jobs',
+        output: {},
+        status: 'in_progress'
+      }
+    ])
+    const github = new GitHub(1, context, buildInfo, config)
+    const allowed = { ...job, ignoreFailure: true }
+    const passed = { ...job, jobId: '3', name: 'Test', state: 'passed' }
+
+    expect(await github.updateSummaryCheck([allowed, passed])).toBe('7')
+    expect(context.github.checks.create).not.toHaveBeenCalled()
+    const updated = context.github.checks.update.mock.calls[0][0]
+    expect(updated).toMatchObject({
+      check_run_id: '7',
+      completed_at: job.finishedAt,
+      conclusion: 'success',
+      status: 'completed'
+    })
+    expect(updated.output.title).toBe('2 jobs succeeded')
+    expect(updated.output.summary).toContain('| failed (allowed) |')
+  })
+
+  test('fails the summary of builds with errored jobs', async () => {
+    const context = createContextWithChecks([])
+    const github = new GitHub(1, context, buildInfo, config)
+    const errored = { ...job, state: 'errored' }
+    const passed = { ...job, jobId: '3', name: 'Test', state: 'passed' }
+
+    await github.updateSummaryCheck([errored, passed])
+    await github.updateSummaryCheck([{ ...errored, ignoreFailure: true }, passed])
+    const [failing, allowed] = context.github.checks.create.mock.calls.map((c: any) => c[0])
+    expect(failing.conclusion).toBe('failure')
+    expect(failing.output.title).toBe('1 of 2 jobs failed')
+    expect(allowed.conclusion).toBe('success')
+  })
+})
+
+describe('GitHub.groupJobs', () => {
+  const node8 = { ...job, jobId: '3', name: 'Test', state: 'passed' }
+  const node10 = { ...job, jobId: '4', name: 'Test', url: 'https://travis-ci.org/o/r/jobs/4' }
+
+  test('folds jobs with the same check name into one', () => {
+    const github = new GitHub(1, createContext(), buildInfo, DEFAULT_CONFIG)
+    const running = { ...node10, finishedAt: '', state: 'started' }
+
+    const grouped = github.groupJobs([job, node8, running])
+    expect(grouped.map(j => [j.jobId, j.name, j.state])).toEqual([
+      ['2', 'Lint', 'failed'],
+      ['3+4', 'Test', 'started']
+    ])
+    expect(grouped[1].jobs).toEqual([node8, running])
+    expect(github.groupJobs([job, node8, node10])[1]).toMatchObject({
+      finishedAt: job.finishedAt,
+      jobId: '3+4',
+      state: 'failed'
+    })
+  })
+
+  test('concludes like its least successful job and breaks its output down by job', async () => {
+    const context = createContext()
+    const outputs: { [jobId: string]: object } = {
+      3: { summary: 'All passed', text: 'Passed text', title: 'Passed' },
+      4: { annotations: annotations(1), summary: '1 failure', title: 'Failed' }
+    }
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async j => outputs[j.jobId])
+
+    await github.createCheck(github.groupJobs([node8, node10])[0])
+    const created = context.github.checks.create.mock.calls[0][0]
+    expect(created).toMatchObject({ conclusion: 'failure', external_id: 'travis-ci.org/1/3+4' })
+    expect(created.actions.map((a: any) => a.identifier)).toEqual(['restart_job', 'cancel_build'])
+    expect(created.output).toEqual({
+      annotations: annotations(1),
+      summary: '#### Job 3\n\nAll passed\n\n#### Job 4\n\n1 failure',
+      text: [
+        '| Job | State | Duration |',
+        '| --- | --- | --- |',
+        '| [Job 3](https://travis-ci.org/o/r/jobs/2) | passed | 1m 0s |',
+        '| [Job 4](https://travis-ci.org/o/r/jobs/4) | failed | 1m 0s |',
+        '',
+        'Passed text'
+      ].join('\n'),
+      title: '1 of 2 jobs failed'
+    })
+  })
+})
+
+describe('GitHub pending output', () => {
+  test('completes checks without output while the log is incomplete', async () => {
+    const context = createContext()
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => {
+      throw new LogIncompleteError('Log for job 2 was still incomplete after 120s')
+    })
+
+    await github.createCheck(job)
+    const created = context.github.checks.create.mock.calls[0][0]
+    expect(created.status).toBe('completed')
+    expect(created.output.title).toBe('Waiting for the log')
+    expect(github.hasPendingOutput).toBe(true)
+  })
+
+  test('completes checks for good on the last attempt at the build', async () => {
+    const context = createContext()
+    const getJobOutput = async () => {
+      throw new LogIncompleteError('Log for job 2 was still incomplete after 120s')
+    }
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, getJobOutput, undefined, true)
+
+    await github.createCheck(job)
+    const created = context.github.checks.create.mock.calls[0][0]
+    expect(created.status).toBe('completed')
+    expect(created.output.title).toBe('Log incomplete')
+    expect(created.output.summary).toContain('`/ci rescan Lint`')
+    expect(github.hasPendingOutput).toBe(false)
+  })
+})
+
+describe('GitHub.prefetchOutputs', () => {
+  test('waits for the logs of all jobs at once', async () => {
+    const context = createContext()
+    let reading = 0
+    let mostReading = 0
+    const getJobOutput = jest.fn(async () => {
+      mostReading = Math.max(mostReading, ++reading)
+      await new Promise(resolve => setTimeout(resolve, 10))
+      reading--
+      return { summary: 'S', title: 'T' }
+    })
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, getJobOutput)
+    const jobs = [
+      job,
+      { ...job, jobId: '3', name: 'Test' },
+      { ...job, jobId: '4', state: 'started' }
+    ]
+
+    github.prefetchOutputs(jobs)
+    for (const j of jobs) {
+      await github.createCheck(j)
+    }
+    expect(mostReading).toBe(2)
+    expect(getJobOutput).toHaveBeenCalledTimes(2)
+    expect(context.github.checks.create.mock.calls[1][0].output).toEqual({
+      summary: 'S',
+      title: 'T'
+    })
+  })
+
+  test('leaves errors reading a log to the check of its job', async () => {
+    const context = createContext()
+    const github = new GitHub(1, context, buildInfo, DEFAULT_CONFIG, async () => {
+      throw new LogIncompleteError('Log for job 2 was still incomplete after 120s')
+    })
+
+    github.prefetchOutputs([job])
+    await github.createCheck(job)
+    expect(context.github.checks.create.mock.calls[0][0].output.title).toBe('Waiting for the log')
+  })
+})
@@ -0,0 +1,194 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import { AuthorizationError } from '../src/ci'
+import { DEFAULT_CONFIG } from '../src/config'
+import { createGitLabProvider, GitLab } from '../src/gitlab'
+
+const log: any = { debug: jest.fn(), error: jest.fn(), info: jest.fn() }
+const context: any = { log }
+
+const CI_CONFIG = `
+.checked:
+  variables:
+    CHECK_NAME: Inherited
+
+lint:
+  script: npm run lint
+  variables:
+    CHECK_NAME: "Lint"
+
+test:
+  extends: .checked
+  script: npm test
+
+deploy:
+  script: ./deploy.sh
+`
+
+const JOBS = [
+  {
+    allow_failure: false,
+    finished_at: '2018-07-01T00:01:00Z',
+    id: 11,
+    name: 'lint',
+    started_at: '2018-07-01T00:00:00Z',
+    status: 'success',
+    web_url: 'http://gitlab/jobs/11'
+  },
+  {
+    allow_failure: true,
+    finished_at: null,
+    id: 12,
+    name: 'test',
+    started_at: null,
+    status: 'pending',
+    web_url: 'http://gitlab/jobs/12'
+  },
+  {
+    allow_failure: false,
+    finished_at: null,
+    id: 13,
+    name: 'deploy',
+    started_at: null,
+    status: 'created',
+    web_url: 'http://gitlab/jobs/13'
+  }
+]
+
+const TRACE = [
+  'Running with gitlab-runner',
+  '---output',
+  '{ "title": "Lint", "summary": "No problems" }',
+  '---',
+  'Job succeeded'
+].join('\n')
+
+describe('GitLab', () => {
+  let server: http.Server
+  let baseUrl: string
+  const retried: string[] = []
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      const url = req.url || ''
+      if (url === '/api/v4/projects/group%2Fproject/pipelines/42') {
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify({ id: 42, source: 'merge_request_event' }))
+      } else if (url.startsWith('/api/v4/projects/group%2Fproject/pipelines/42/jobs')) {
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(JOBS))
+      } else if (
+        url === '/api/v4/projects/group%2Fproject/repository/files/.gitlab-ci.yml/raw?ref=abc123'
+      ) {
+        res.end(CI_CONFIG)
+      } else if (url === '/api/v4/projects/group%2Fproject/jobs/11/trace') {
+        res.end(TRACE)
+      } else if (
+        req.method === 'POST' &&
+        url === '/api/v4/projects/group%2Fproject/jobs/11/retry'
+      ) {
+        retried.push(url)
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify({ id: 14 }))
+      } else if (url === '/api/v4/projects/group%2Fproject/pipelines/42/retry') {
+        res.statusCode = 403
+        res.end()
+      } else {
+        res.statusCode = 404
+        res.end()
+      }
+    })
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll(done => {
+    server.close(done)
+  })
+
+  const status = (targetUrl: string) => ({
+    repository: { name: 'repo', owner: { login: 'owner' } },
+    sha: 'abc123',
+    target_url: targetUrl
+  })
+
+  test('parses pipeline statuses from configured instances', () => {
+    expect(
+      GitLab.parseStatus(status(`${baseUrl}/group/project/-/pipelines/42`), [baseUrl])
+    ).toEqual({
+      domain: baseUrl.substr('http://'.length),
+      headSha: 'abc123',
+      id: '42',
+      owner: 'owner',
+      project: 'group/project',
+      repo: 'repo'
+    })
+  })
+
+  test('ignores statuses from other hosts', () => {
+    expect(
+      GitLab.parseStatus(status('https://evil.example.com/group/project/-/pipelines/42'), [baseUrl])
+    ).toBeUndefined()
+    expect(
+      GitLab.parseStatus(status(`${baseUrl}/group/project/-/jobs/42`), [baseUrl])
+    ).toBeUndefined()
+  })
+
+  test('recovers projects from the details URLs of check runs', () => {
+    const provider = createGitLabProvider({ baseUrls: [baseUrl] })
+    expect(provider.parseProject(`${baseUrl}/other-group/renamed/-/jobs/11`)).toBe(
+      'other-group/renamed'
+    )
+    expect(provider.parseProject(`${baseUrl}/group/sub/project/jobs/11`)).toBe('group/sub/project')
+    expect(
+      provider.parseProject('https://evil.example.com/group/project/-/jobs/11')
+    ).toBeUndefined()
+  })
+
+  test('lists jobs that set CHECK_NAME', async () => {
+    const buildInfo = GitLab.parseStatus(status(`${baseUrl}/group/project/-/pipelines/42`), [
+      baseUrl
+    ])!
+    const gitlab = new GitLab(context, buildInfo, DEFAULT_CONFIG, baseUrl)
+    const jobs = await gitlab.getSupportedJobs()
+
+    expect(jobs!.map(j => [j.jobId, j.name, j.state, j.ignoreFailure])).toEqual([
+      ['11', 'Lint', 'passed', false],
+      ['12', 'Inherited', 'created', true]
+    ])
+  })
+
+  test('reads fenced output from the job trace', async () => {
+    const buildInfo = GitLab.parseStatus(status(`${baseUrl}/group/project/-/pipelines/42`), [
+      baseUrl
+    ])!
+    const gitlab = new GitLab(context, buildInfo, DEFAULT_CONFIG, baseUrl)
+    const jobs = await gitlab.getSupportedJobs()
+
+    expect(await gitlab.getJobOutput(jobs![0])).toEqual({ summary: 'No problems', title: 'Lint' })
+  })
+
+  test('retries jobs', async () => {
+    const buildInfo = GitLab.parseStatus(status(`${baseUrl}/group/project/-/pipelines/42`), [
+      baseUrl
+    ])!
+    const gitlab = new GitLab(context, buildInfo, DEFAULT_CONFIG, baseUrl)
+
+    await gitlab.restartJob('11')
+    expect(retried).toEqual(['/api/v4/projects/group%2Fproject/jobs/11/retry'])
+    // The retry is a new job, so the check of the old one can't be marked queued
+    expect(createGitLabProvider({ baseUrls: [baseUrl] }).restartKeepsJobIds).toBe(false)
+  })
+
+  test('reports refused retries as authorization errors', async () => {
+    const buildInfo = GitLab.parseStatus(status(`${baseUrl}/group/project/-/pipelines/42`), [
+      baseUrl
+    ])!
+    const gitlab = new GitLab(context, buildInfo, DEFAULT_CONFIG, baseUrl)
+
+    await expect(gitlab.restartBuild()).rejects.toBeInstanceOf(AuthorizationError)
+  })
+})
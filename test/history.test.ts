@@ -0,0 +1,76 @@
+import { getHistoryNote, JobHistory, JobRecord } from '../src/history'
+
+function createStore(initial: JobRecord[] = []) {
+  return { load: jest.fn(() => initial), save: jest.fn() }
+}
+
+function record(jobId: string, conclusion: string, minutes: number, branch = 'main'): JobRecord {
+  return {
+    branch,
+    buildId: jobId,
+    conclusion,
+    domain: 'travis-ci.org',
+    duration: minutes * 60000,
+    finishedAt: new Date(Date.UTC(2018, 6, 1, Number(jobId))).toISOString(),
+    headSha: `sha${jobId}`,
+    jobId,
+    name: 'Test',
+    repo: 'o/r'
+  }
+}
+
+describe('JobHistory', () => {
+  test('summarizes the most recent builds of a step on a branch', () => {
+    const history = new JobHistory(
+      createStore([
+        record('1', 'failure', 9),
+        record('2', 'success', 2),
+        record('3', 'failure', 4),
+        record('4', 'cancelled', 1),
+        record('5', 'failure', 3, 'feature'),
+        record('6', 'success', 3)
+      ])
+    )
+
+    expect(history.getStepStats('o/r', 'Test', 'main', 3)).toEqual({
+      builds: 3,
+      failures: 1,
+      medianDuration: 3 * 60000,
+      name: 'Test'
+    })
+    expect(history.getStepStats('o/r', 'Test', 'main', 20, record('3', '', 0).finishedAt)).toEqual({
+      builds: 2,
+      failures: 1,
+      medianDuration: 5.5 * 60000,
+      name: 'Test'
+    })
+    expect(history.getRepoStats('o/r', 'feature', 20)).toEqual([
+      { builds: 1, failures: 1, medianDuration: 3 * 60000, name: 'Test' }
+    ])
+  })
+
+  test('replaces earlier records of the same run of a job', () => {
+    const store = createStore([record('1', 'failure', 9)])
+    const history = new JobHistory(store)
+
+    history.record(record('1', 'success', 2))
+    history.record(record('2', 'success', 2))
+    expect(store.save.mock.calls[1][0].map((r: JobRecord) => r.conclusion)).toEqual([
+      'success',
+      'success'
+    ])
+  })
+})
+
+describe('getHistoryNote', () => {
+  test('compares a run with the step history', () => {
+    const stats = { builds: 20, failures: 4, medianDuration: 160000, name: 'Test' }
+    expect(getHistoryNote(stats, 'main', 190000)).toBe(
+      'This step failed in 4 of the last 20 builds on `main`. This run took 3m 10s, the median is 2m 40s.'
+    )
+    expect(getHistoryNote({ ...stats, builds: 1, failures: 0 }, 'main', 5000)).toBe(
+      'This step passed in the last build on `main`. This run took 5s, the median is 2m 40s.'
+    )
+    expect(getHistoryNote({ builds: 0, failures: 0, name: 'Test' }, 'main', 5000)).toBeUndefined()
+  })
+})
@@ -0,0 +1,65 @@
+import zlib from 'zlib'
+
+import { scanForOutput } from '../src/output'
+
+const log: any = { debug: jest.fn(), error: jest.fn() }
+const options = {
+  buildInfo: { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' },
+  endMarker: 'Your build exited',
+  fence: 'output',
+  workingDirectory: '/home/travis/build/o/r'
+}
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="math" file="/home/travis/build/o/r/test/math.test.js">
+    <testcase classname="math" name="adds" time="0.01"/>
+    <testcase classname="math" name="subtracts" time="0.02">
+      <failure message="expected 1 to equal 2">AssertionError: expected 1 to equal 2
+    at Context.it (/home/travis/build/o/r/test/math.test.js:12:10)</failure>
+    </testcase>
+    <testcase classname="math" name="divides | rounds">
+      <error>TypeError: boom</error>
+    </testcase>
+    <testcase classname="math" name="multiplies"><skipped/></testcase>
+  </testsuite>
+</testsuites>`
+
+describe('JUnit blocks', () => {
+  test('summarizes the report', async () => {
+    const content = ['---junit', REPORT, '---', 'Your build exited with 1.'].join('\n')
+    const output: any = await scanForOutput(log, '1', content, options)
+
+    expect(output.title).toBe('2 of 4 tests failed')
+    expect(output.summary).toBe('**1** passed, **2** failed, **1** skipped')
+    expect(output.text).toBe(
+      [
+        '| Test | Failure |',
+        '| --- | --- |',
+        '| math › subtracts | expected 1 to equal 2 |',
+        '| math › divides \\| rounds | TypeError: boom |'
+      ].join('\n')
+    )
+    expect(output.annotations).toEqual([
+      expect.objectContaining({
+        filename: 'test/math.test.js',
+        start_line: 12,
+        title: 'math › subtracts'
+      }),
+      expect.objectContaining({
+        filename: 'test/math.test.js',
+        message: 'TypeError: boom',
+        start_line: 1
+      })
+    ])
+  })
+
+  test('decodes compressed reports', async () => {
+    const encoded = zlib.gzipSync(Buffer.from(REPORT)).toString('base64')
+    const wrapped = encoded.match(/.{1,76}/g) as string[]
+    const content = ['---junit-gz', ...wrapped, '---', 'Your build exited with 1.'].join('\n')
+    const output: any = await scanForOutput(log, '1', content, options)
+
+    expect(output.title).toBe('2 of 4 tests failed')
+  })
+})
@@ -0,0 +1,28 @@
+import { Metrics } from '../src/metrics'
+
+describe('Metrics', () => {
+  test('exports counters in the Prometheus text format', () => {
+    const metrics = new Metrics()
+    metrics.describe('checks_created_total', 'Checks created for jobs')
+    metrics.describe('log_retries_total', 'Attempts to read job logs that were retried')
+    metrics.increment('checks_created_total')
+    metrics.increment('cache_requests_total', { cache: 'check_runs', result: 'hit' }, 2)
+    metrics.increment('cache_requests_total', { result: 'miss', cache: 'check_runs' })
+    metrics.increment('checks_created_total')
+
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# TYPE cache_requests_total counter',
+        'cache_requests_total{cache="check_runs",result="hit"} 2',
+        'cache_requests_total{cache="check_runs",result="miss"} 1',
+        '# HELP checks_created_total Checks created for jobs',
+        '# TYPE checks_created_total counter',
+        'checks_created_total 2',
+        '# HELP log_retries_total Attempts to read job logs that were retried',
+        '# TYPE log_retries_total counter',
+        'log_retries_total 0',
+        ''
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,149 @@
+import { LogIncompleteError, scanForOutput, waitForOutput } from '../src/output'
+import { RateLimitError } from '../src/ratelimit'
+
+const log: any = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() }
+
+function annotation(message: string) {
+  return {
+    blob_href: 'https://github.com/o/r/blob/abc123/a.js',
+    end_line: 1,
+    filename: 'a.js',
+    message,
+    start_line: 1,
+    warning_level: 'notice'
+  }
+}
+const options = {
+  buildInfo: { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' },
+  endMarker: 'Your build exited',
+  fence: 'output',
+  workingDirectory: '/home/travis/build/o/r'
+}
+
+describe('scanForOutput', () => {
+  test('merges every fenced block in the log', async () => {
+    const content = [
+      '$ npm run lint',
+      '---output',
+      '{ "title": "Lint", "summary": "No lint errors",',
+      `  "annotations": [${JSON.stringify(annotation('a'))}] }`,
+      '---',
+      '$ npm test',
+      '---output',
+      '{',
+      '  "title": "Tests",',
+      '  "summary": "All tests passed",',
+      '  "text": "## Results',
+      '',
+      '    indented code",',
+      `  "annotations": [${JSON.stringify(annotation('b'))}]`,
+      '}',
+      '---',
+      'Done. Your build exited with 0.'
+    ].join('\n')
+
+    expect(await scanForOutput(log, '1', content, options)).toEqual({
+      annotations: [annotation('a'), annotation('b')],
+      summary: 'No lint errors\n\nAll tests passed',
+      text: '## Results\n\n    indented code',
+      title: 'Tests'
+    })
+  })
+
+  test('returns a single block unchanged', async () => {
+    const content = '---output\n{ "title": "T", "summary": "S" }\n---\nYour build exited'
+    expect(await scanForOutput(log, '1', content, options)).toEqual({
+      summary: 'S',
+      title: 'T'
+    })
+  })
+
+  test('returns undefined when no block is present', async () => {
+    expect(await scanForOutput(log, '1', 'hello\nYour build exited', options)).toBe(undefined)
+  })
+
+  test('treats a log without the end marker as incomplete', async () => {
+    const content = '---output\n{ "title": "T", "summary": "S" }\n---\n'
+    await expect(scanForOutput(log, '1', content, options)).rejects.toThrow('LogStreamIncomplete')
+  })
+
+  test('reports blocks that exceed the buffer limit', async () => {
+    const content = '---output\n{ "title": "T", "summary": "S" }\n---\nYour build exited'
+    const output: any = await scanForOutput(log, '1', content, { ...options, maxBufferedBytes: 20 })
+    expect(output.summary).toContain('Block at line 1: The block is too large to be read')
+  })
+
+  test('reports JSON syntax errors with their log line', async () => {
+    const content = [
+      'npm test',
+      '---output',
+      '{',
+      '  "title": "T",',
+      '  "summary": "multi',
+      '  line"',
+      '  "text": "oops"',
+      '}',
+      '---',
+      'Your build exited'
+    ].join('\n')
+    const output: any = await scanForOutput(log, '1', content, options)
+
+    expect(output.title).toBe('Invalid check output')
+    expect(output.summary).toMatch(
+      /^The output emitted by this step could not be used:\n\n- Block at line 2: Invalid JSON on line 6:\n/
+    )
+  })
+
+  test('reports schema errors', async () => {
+    const block = {
+      annotations: [{ ...annotation('a'), end_line: 0, warning_level: 'error' }],
+      title: 'T'
+    }
+    const content = ['---output', JSON.stringify(block), '---', 'Your build exited'].join('\n')
+    const output: any = await scanForOutput(log, '1', content, options)
+
+    expect(output.summary).toBe(
+      [
+        'The output emitted by this step could not be used:',
+        '',
+        '- Block at line 1: `annotations[0].end_line` must be a positive integer',
+        '- Block at line 1: `annotations[0].warning_level` must be one of `notice`, `warning`, `failure`',
+        '- No block provides the required `summary`'
+      ].join('\n')
+    )
+  })
+})
+
+describe('waitForOutput', () => {
+  test('retries until the log is complete', async () => {
+    const getOutput = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('LogStreamIncomplete'))
+      .mockRejectedValueOnce(new Error('LogStreamIncomplete'))
+      .mockResolvedValue({ summary: 'S', title: 'T' })
+
+    expect(await waitForOutput(log, '2', 1000, getOutput, 1)).toEqual({ summary: 'S', title: 'T' })
+    expect(getOutput).toHaveBeenCalledTimes(3)
+  })
+
+  test('gives up on incomplete logs once the deadline passes', async () => {
+    const getOutput = jest.fn().mockRejectedValue(new Error('LogStreamIncomplete'))
+
+    await expect(waitForOutput(log, '2', 20, getOutput, 5)).rejects.toBeInstanceOf(
+      LogIncompleteError
+    )
+  })
+
+  test('rethrows other errors once the deadline passes', async () => {
+    const getOutput = jest.fn().mockRejectedValue(new Error('socket hang up'))
+
+    await expect(waitForOutput(log, '2', 20, getOutput, 5)).rejects.toThrow('socket hang up')
+  })
+
+  test('rethrows rate limit errors without retrying', async () => {
+    const getOutput = jest.fn().mockRejectedValue(new RateLimitError('Rate limited', 12345))
+
+    await expect(waitForOutput(log, '2', 1000, getOutput, 1)).rejects.toBeInstanceOf(RateLimitError)
+    expect(getOutput).toHaveBeenCalledTimes(1)
+  })
+})
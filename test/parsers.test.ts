@@ -0,0 +1,125 @@
+import { parseLog } from '../src/parsers'
+
+const buildInfo = { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' }
+const workingDirectory = '/home/travis/build/o/r'
+const blob = 'https://github.com/o/r/blob/abc123'
+
+function parse(parser: string, lines: string[]): any {
+  return parseLog(parser, lines.join('\n'), buildInfo, workingDirectory)
+}
+
+describe('parseLog', () => {
+  test('compiler', () => {
+    const output = parse('compiler', [
+      "\x1b[1m/home/travis/build/o/r/src/main.c:12:5: warning: unused variable 'x'\x1b[0m",
+      "src/util.c:3: error: expected ';'",
+      '/usr/include/stdio.h:10:1: note: declared here',
+      'Time: 10:30:00'
+    ])
+    expect(output.title).toBe('1 errors, 1 warnings, 1 notices')
+    expect(output.annotations).toEqual([
+      {
+        blob_href: `${blob}/src/main.c`,
+        end_line: 12,
+        filename: 'src/main.c',
+        message: "unused variable 'x'",
+        start_line: 12,
+        title: undefined,
+        warning_level: 'warning'
+      },
+      expect.objectContaining({ filename: 'src/util.c', start_line: 3, warning_level: 'failure' })
+    ])
+    expect(output.text).toBe('- declared here')
+  })
+
+  test('tsc', () => {
+    const output = parse('tsc', [
+      "src/index.ts(4,7): error TS2322: Type '1' is not assignable to type 'string'.",
+      "src/app.ts:9:3 - error TS2304: Cannot find name 'foo'."
+    ])
+    expect(output.annotations.map((a: any) => [a.filename, a.start_line, a.title])).toEqual([
+      ['src/index.ts', 4, 'TS2322'],
+      ['src/app.ts', 9, 'TS2304']
+    ])
+  })
+
+  test('eslint', () => {
+    const output = parse('eslint', [
+      '/home/travis/build/o/r/lib/a.js',
+      '  1:10  error    Missing semicolon  semi',
+      '  2:1   warning  Unexpected console statement  no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)'
+    ])
+    expect(
+      output.annotations.map((a: any) => [a.filename, a.start_line, a.warning_level, a.title])
+    ).toEqual([['lib/a.js', 1, 'failure', 'semi'], ['lib/a.js', 2, 'warning', 'no-console']])
+  })
+
+  test('tap', () => {
+    const output = parse('tap', [
+      'TAP version 13',
+      'ok 1 - adds',
+      'not ok 2 - subtracts',
+      '  ---',
+      "  message: 'should be equal'",
+      '  at: Test.<anonymous> (/home/travis/build/o/r/test/math.js:14:5)',
+      '  ...',
+      'not ok 3 - divides # TODO not implemented',
+      'not ok 4 - multiplies'
+    ])
+    expect(output.annotations).toEqual([
+      expect.objectContaining({
+        filename: 'test/math.js',
+        message: 'subtracts: should be equal',
+        start_line: 14
+      })
+    ])
+    expect(output.text).toBe('- **multiplies**: multiplies')
+  })
+
+  test('jest', () => {
+    const output = parse('jest', [
+      'FAIL test/sum.test.js',
+      '  ● math › sums',
+      '',
+      '    expect(received).toBe(expected)',
+      '',
+      '      at Object.<anonymous> (/home/travis/build/o/r/test/sum.test.js:4:17)',
+      'PASS test/other.test.js',
+      'Summary of all failing tests',
+      'FAIL test/sum.test.js',
+      '  ● math › sums'
+    ])
+    expect(output.annotations).toEqual([
+      expect.objectContaining({
+        filename: 'test/sum.test.js',
+        message: 'expect(received).toBe(expected)',
+        start_line: 4,
+        title: 'math › sums'
+      })
+    ])
+  })
+
+  test('junit', () => {
+    const output = parse('junit', [
+      'testAdd(com.example.MathTest)  Time elapsed: 0.01 sec  <<< FAILURE!',
+      'java.lang.AssertionError: expected:<2> but was:<3>',
+      'Results :',
+      '[ERROR]   MathTest.testSub:42 expected:<1> but was:<2>',
+      'com.example.Other > testMul FAILED'
+    ])
+    expect(output.title).toBe('3 errors, 0 warnings')
+    expect(output.text).toBe(
+      [
+        '- **com.example.MathTest.testAdd**: java.lang.AssertionError: expected:<2> but was:<3>',
+        '- **MathTest.testSub**: expected:<1> but was:<2>',
+        '- **com.example.Other.testMul**: Test failed'
+      ].join('\n')
+    )
+  })
+
+  test('unknown parser', () => {
+    expect(parse('nope', []).title).toBe('Unknown log parser')
+  })
+})
@@ -0,0 +1,70 @@
+import { CIProvider, StatusInfo } from '../src/ci'
+import { ProviderRegistry } from '../src/providers'
+
+function provider(name: string, domain: string, statusContexts: string[]): CIProvider {
+  return {
+    createBuild: jest.fn(),
+    domains: [domain],
+    name,
+    parseStatus: jest.fn(
+      (status: StatusInfo) =>
+        (status.target_url || '').includes(domain)
+          ? { domain, headSha: status.sha, id: name, owner: 'o', repo: 'r' }
+          : undefined
+    ),
+    restartKeepsJobIds: true,
+    statusContexts
+  }
+}
+
+function status(targetUrl: string): StatusInfo {
+  return { repository: { name: 'r', owner: { login: 'o' } }, sha: 'abc123', target_url: targetUrl }
+}
+
+describe('ProviderRegistry', () => {
+  const travis = provider('travis', 'travis-ci.org', ['ci/travis/pr', 'ci/travis/push'])
+  const gitlab = provider('gitlab', 'gitlab.example.com', ['ci/gitlab/gitlab.example.com'])
+  const catchAll = provider('catch-all', '', ['ci/other'])
+
+  test('matches statuses with the first provider that parses them', () => {
+    const registry = new ProviderRegistry()
+      .register(travis)
+      .register(gitlab)
+      .register(catchAll)
+
+    expect(registry.match(status('https://gitlab.example.com/o/r/-/pipelines/1'))).toEqual({
+      buildInfo: {
+        domain: 'gitlab.example.com',
+        headSha: 'abc123',
+        id: 'gitlab',
+        owner: 'o',
+        repo: 'r'
+      },
+      provider: gitlab
+    })
+    expect(registry.match(status('https://travis-ci.org/o/r/builds/1'))!.provider).toBe(travis)
+    expect(registry.match(status('https://ci.example.com/builds/1'))!.provider).toBe(catchAll)
+    expect(
+      new ProviderRegistry().register(travis).match(status('https://ci.example.com'))
+    ).toBeUndefined()
+  })
+
+  test('finds providers by domain regardless of case', () => {
+    const registry = new ProviderRegistry().register(travis).register(gitlab)
+
+    expect(registry.findByDomain('Travis-CI.org')).toBe(travis)
+    expect(registry.findByDomain('gitlab.example.com')).toBe(gitlab)
+    expect(registry.findByDomain('ci.example.com')).toBeUndefined()
+  })
+
+  test('lists the status contexts of every provider in registration order', () => {
+    const registry = new ProviderRegistry().register(travis).register(gitlab)
+
+    expect(registry.statusContexts).toEqual([
+      'ci/travis/pr',
+      'ci/travis/push',
+      'ci/gitlab/gitlab.example.com'
+    ])
+    expect(new ProviderRegistry().statusContexts).toEqual([])
+  })
+})
@@ -0,0 +1,148 @@
+import { BuildQueue, QueuedBuild } from '../src/queue'
+import { RateLimitError } from '../src/ratelimit'
+
+const status = (sha: string) => ({
+  repository: { name: 'r', owner: { login: 'o' } },
+  sha,
+  target_url: 'https://travis-ci.org/o/r/builds/1'
+})
+
+const options = { concurrency: 2, maxAttempts: 3, retryDelay: 1 }
+
+function createStore(initial: QueuedBuild[] = []) {
+  let saved = initial
+  return {
+    load: jest.fn(() => saved),
+    save: jest.fn((builds: QueuedBuild[]) => {
+      saved = builds
+    }),
+    get saved() {
+      return saved
+    }
+  }
+}
+
+function createLog() {
+  return { debug: jest.fn(), error: jest.fn(), info: jest.fn(), warn: jest.fn() } as any
+}
+
+describe('BuildQueue', () => {
+  test('replaces the queued status for a build', async () => {
+    const store = createStore()
+    const processed: string[] = []
+    const queue = new BuildQueue(
+      store,
+      async b => {
+        processed.push(b.status.sha)
+      },
+      createLog(),
+      { ...options, concurrency: 1 }
+    )
+
+    queue.enqueue('travis-ci.org/1', 5, status('a'))
+    queue.enqueue('travis-ci.org/2', 5, status('b'))
+    queue.enqueue('travis-ci.org/2', 5, status('c'))
+    await queue.drain()
+
+    expect(processed).toEqual(['a', 'c'])
+    expect(store.saved).toEqual([])
+  })
+
+  test('processes a build again when a status arrives while it is running', async () => {
+    const processed: string[] = []
+    let release = () => undefined as void
+    const queue = new BuildQueue(
+      createStore(),
+      async b => {
+        processed.push(b.status.sha)
+        if (processed.length === 1) {
+          await new Promise<void>(resolve => (release = resolve))
+        }
+      },
+      createLog(),
+      options
+    )
+
+    queue.enqueue('travis-ci.org/1', 5, status('a'))
+    queue.enqueue('travis-ci.org/1', 5, status('b'))
+    release()
+    await queue.drain()
+
+    expect(processed).toEqual(['a', 'b'])
+  })
+
+  test('lists running and waiting builds', async () => {
+    let release = () => undefined as void
+    const queue = new BuildQueue(
+      createStore(),
+      () => new Promise<void>(resolve => (release = resolve)),
+      createLog(),
+      { ...options, concurrency: 1 }
+    )
+
+    queue.enqueue('travis-ci.org/1', 5, status('a'))
+    queue.enqueue('travis-ci.org/2', 5, status('b'))
+    expect(queue.list()).toMatchObject([
+      { key: 'travis-ci.org/1', running: true },
+      { key: 'travis-ci.org/2', running: false }
+    ])
+
+    release()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    release()
+    await queue.drain()
+    expect(queue.list()).toEqual([])
+  })
+
+  test('retries failed builds until the attempt limit', async () => {
+    const log = createLog()
+    const processBuild = jest.fn().mockRejectedValue(new Error('boom'))
+    const queue = new BuildQueue(createStore(), processBuild, log, options)
+
+    queue.enqueue('travis-ci.org/1', 5, status('a'))
+    await queue.drain()
+
+    expect(processBuild.mock.calls.map(c => [c[0].attempts, c[1]])).toEqual([
+      [0, false],
+      [1, false],
+      [2, true]
+    ])
+    expect(log.error.mock.calls[0][1]).toBe('Giving up on build travis-ci.org/1 after 3 attempts')
+  })
+
+  test('retries builds deferred by rate limits once the limit resets', async () => {
+    const retryAt = Date.now() + 20
+    const processBuild = jest
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('deferred', retryAt))
+      .mockRejectedValueOnce(new RateLimitError('deferred', retryAt))
+      .mockResolvedValue(undefined)
+    const queue = new BuildQueue(createStore(), processBuild, createLog(), {
+      ...options,
+      maxAttempts: 1
+    })
+
+    queue.enqueue('travis-ci.org/1', 5, status('a'))
+    await queue.drain()
+
+    expect(processBuild.mock.calls.map(c => c[0].attempts)).toEqual([0, 0, 0])
+    expect(processBuild.mock.calls[1][0].notBefore).toBeGreaterThanOrEqual(retryAt)
+  })
+
+  test('resumes builds left in the store', async () => {
+    const build = {
+      attempts: 1,
+      installationId: 5,
+      key: 'travis-ci.org/1',
+      notBefore: 0,
+      status: status('a')
+    }
+    const processBuild = jest.fn().mockResolvedValue(undefined)
+    const queue = new BuildQueue(createStore([build]), processBuild, createLog(), options)
+
+    queue.start()
+    await queue.drain()
+
+    expect(processBuild).toHaveBeenCalledWith(build, false)
+  })
+})
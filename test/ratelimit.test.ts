@@ -0,0 +1,78 @@
+import { createRateLimiter, RateLimitError } from '../src/ratelimit'
+
+const log: any = { debug: jest.fn(), warn: jest.fn() }
+const options = { maxWait: 50, retries: 2, retryDelay: 1, throttleBelow: 10 }
+
+function httpError(status: number, headers: object = {}, message = 'Failed') {
+  return Object.assign(new Error(message), { code: status, headers })
+}
+
+describe('createRateLimiter', () => {
+  test('retries idempotent calls that fail with server errors', async () => {
+    const limiter = createRateLimiter(options)
+    const call = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValue('ok')
+
+    expect(await limiter.run('github/1', log, true, call)).toBe('ok')
+    expect(call).toHaveBeenCalledTimes(2)
+  })
+
+  test('does not retry other calls that fail', async () => {
+    const limiter = createRateLimiter(options)
+    const call = jest.fn().mockRejectedValue(httpError(502))
+
+    await expect(limiter.run('github/1', log, false, call)).rejects.toMatchObject({ code: 502 })
+    expect(call).toHaveBeenCalledTimes(1)
+  })
+
+  test('retries calls rejected by a rate limit once it resets', async () => {
+    const limiter = createRateLimiter(options)
+    const call = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(403, { 'retry-after': '0' }, 'Secondary rate limit'))
+      .mockResolvedValue('ok')
+
+    expect(await limiter.run('github/1', log, false, call)).toBe('ok')
+    expect(call).toHaveBeenCalledTimes(2)
+  })
+
+  test('defers calls while the limit is exhausted', async () => {
+    const limiter = createRateLimiter(options)
+    const reset = Math.floor(Date.now() / 1000) + 60
+    const headers = { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset.toString() }
+    await limiter.run('github/1', log, true, async () => ({ headers }))
+
+    const call = jest.fn()
+    await expect(limiter.run('github/1', log, true, call)).rejects.toEqual(
+      expect.objectContaining({ name: 'RateLimitError', retryAt: reset * 1000 })
+    )
+    expect(call).not.toHaveBeenCalled()
+
+    // Other installations have their own limit
+    expect(await limiter.run('github/2', log, true, async () => 'ok')).toBe('ok')
+  })
+
+  test('reports calls still rate limited after every retry as deferred', async () => {
+    const limiter = createRateLimiter({ ...options, retries: 0 })
+    const call = jest
+      .fn()
+      .mockRejectedValue(Object.assign(new Error('Too many'), { statusCode: 429 }))
+
+    const error = await limiter.run('travis/travis-ci.org', log, true, call).catch(e => e)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.retryAt).toBeGreaterThan(Date.now())
+  })
+
+  test('spreads calls out as the limit runs low', async () => {
+    const limiter = createRateLimiter(options)
+    const reset = Math.floor(Date.now() / 1000) + 10
+    const headers = { 'x-ratelimit-remaining': '5', 'x-ratelimit-reset': reset.toString() }
+    await limiter.run('github/1', log, true, async () => ({ headers }))
+
+    const before = Date.now()
+    await limiter.run('github/1', log, true, async () => 'ok')
+    expect(limiter.getNextCallTime('github/1')).toBeGreaterThan(before + 1000)
+  })
+})
@@ -0,0 +1,17 @@
+import fs from 'fs'
+import path from 'path'
+
+import { replay } from './replay/harness'
+
+const FIXTURES = path.join(__dirname, 'replay', 'fixtures')
+
+// Each fixture replays recorded webhooks and API responses, the check runs and comments Sidecar
+// writes are compared against the snapshots. Update them with `npx jest test/replay -u` after
+// intended changes.
+describe('replay', () => {
+  for (const fixture of fs.readdirSync(FIXTURES)) {
+    test(fixture, async () => {
+      expect(await replay(path.join(FIXTURES, fixture))).toMatchSnapshot()
+    })
+  }
+})
@@ -0,0 +1,245 @@
+// Replays recorded webhooks through the app against local stand-ins for the GitHub, Travis and
+// GitLab APIs, which answer with recorded responses and record every request they receive.
+//
+// A fixture is a directory with:
+// - `events.json`: webhooks to deliver in order, as `{ "name": "status", "payload": { ... } }`.
+//   `$GITLAB_URL` and `$GITLAB_HOST` stand for the GitLab stand-in, which listens on any port.
+// - `github.json`, `travis.json` and optionally `gitlab.json`: responses by `METHOD /path`, without the query string, as
+//   `{ "status": 200, "body": { ... } }` or `{ "file": "job-1.log" }` for text served from a file
+//   in the fixture directory. A list of responses is served one per request, in order, before
+//   falling back to what wasn't recorded. Unknown GitHub writes are answered with a new ID,
+//   anything else that wasn't recorded with a 404.
+
+import express from 'express'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { Application } from 'probot'
+import { GitHubAPI } from 'probot/lib/github'
+import { logger } from 'probot/lib/logger'
+import { parse } from 'url'
+
+interface RecordedResponse {
+  readonly body?: any
+  readonly file?: string
+  readonly headers?: { readonly [name: string]: string }
+  readonly status?: number
+}
+
+interface RecordedResponses {
+  readonly [request: string]: RecordedResponse | ReadonlyArray<RecordedResponse>
+}
+
+export interface ReplayedRequest {
+  readonly body?: any
+  readonly method: string
+  readonly path: string
+  readonly range?: string
+}
+
+export interface ReplayResult {
+  // Requests that changed something on GitHub, such as creating check runs, in order
+  readonly githubWrites: ReadonlyArray<ReplayedRequest>
+  readonly gitlabRequests: ReadonlyArray<ReplayedRequest>
+  readonly travisRequests: ReadonlyArray<ReplayedRequest>
+}
+
+const ADMIN_SECRET = 'replay'
+
+// Longest a replay waits for the queue to empty, including retries of builds that failed
+const QUEUE_TIMEOUT = 10000
+
+export async function replay(fixtureDir: string): Promise<ReplayResult> {
+  const read = (name: string) => JSON.parse(fs.readFileSync(path.join(fixtureDir, name), 'utf8'))
+  const githubWrites: ReplayedRequest[] = []
+  const gitlabRequests: ReplayedRequest[] = []
+  const travisRequests: ReplayedRequest[] = []
+
+  let nextId = 1000
+  const github = await listen(
+    serveRecorded(fixtureDir, read('github.json'), (req, body) => {
+      if (req.method === 'GET') {
+        return undefined
+      }
+      githubWrites.push(toReplayed(req, body))
+      // Creations get a new ID, updates keep the ID from their path
+      const id = req.method === 'POST' ? nextId++ : Number((req.url as string).split('/').pop())
+      return { body: { id }, status: req.method === 'DELETE' ? 204 : 200 }
+    })
+  )
+  const travis = await listen(
+    serveRecorded(fixtureDir, read('travis.json'), (req, body) => {
+      travisRequests.push(toReplayed(req, body))
+      return undefined
+    })
+  )
+
+  const gitlab = await listen(
+    serveRecorded(
+      fixtureDir,
+      fs.existsSync(path.join(fixtureDir, 'gitlab.json')) ? read('gitlab.json') : {},
+      (req, body) => {
+        gitlabRequests.push(toReplayed(req, body))
+        return undefined
+      }
+    )
+  )
+  const events = JSON.parse(
+    fs
+      .readFileSync(path.join(fixtureDir, 'events.json'), 'utf8')
+      .replace(/\$GITLAB_URL/g, url(gitlab))
+      .replace(/\$GITLAB_HOST/g, parse(url(gitlab)).host as string)
+  )
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'))
+  const env = {
+    ADMIN_SECRET,
+    APP_ID: '1',
+    GITLAB_URLS: url(gitlab),
+    HISTORY_STORE_PATH: path.join(dataDir, 'history.json'),
+    QUEUE_CONCURRENCY: '1',
+    QUEUE_RETRY_DELAY: '10',
+    QUEUE_STORE_PATH: path.join(dataDir, 'queue.json'),
+    TOKEN_STORE_PATH: path.join(dataDir, 'tokens.json'),
+    TRAVIS_API_URL: url(travis)
+  }
+  const previousEnv = { ...process.env }
+  Object.assign(process.env, env)
+  if (!process.env.LOG_LEVEL) {
+    logger.level('fatal')
+  }
+
+  // The app reads its environment and keeps its caches when it is first imported
+  jest.resetModules()
+  const sidecar = require('../../src/index')
+
+  const app = new Application({ app: () => 'jwt', cache: undefined as any })
+  app.auth = async (_, log = app.log) =>
+    GitHubAPI({
+      baseUrl: url(github),
+      // Recorded responses don't need the delay Probot adds between requests
+      limiter: { schedule: (call: () => Promise<void>) => call() },
+      logger: log
+    })
+  app.load(sidecar)
+  const routes = await listen(express().use(app.router))
+
+  try {
+    for (const event of events) {
+      await app.receive({ id: event.name, ...event })
+    }
+    await waitForQueue(url(routes))
+  } finally {
+    for (const name of Object.keys(env)) {
+      if (name in previousEnv) {
+        process.env[name] = previousEnv[name]
+      } else {
+        delete process.env[name]
+      }
+    }
+    await Promise.all([github, gitlab, travis, routes].map(close))
+  }
+
+  return { githubWrites, gitlabRequests, travisRequests }
+}
+
+// Serves recorded responses, `onRequest` sees every request and may answer those that weren't
+// recorded
+function serveRecorded(
+  fixtureDir: string,
+  responses: RecordedResponses,
+  onRequest: (req: http.IncomingMessage, body: any) => RecordedResponse | undefined
+): http.RequestListener {
+  // How many of each list of responses were served
+  const served = new Map<string, number>()
+  return (req, res) => {
+    let data = ''
+    req.on('data', chunk => (data += chunk))
+    req.on('end', () => {
+      const body = data ? JSON.parse(data) : undefined
+      const key = `${req.method} ${(req.url as string).split('?')[0]}`
+      const fallback = onRequest(req, body)
+      const recorded = responses[key]
+      let response = recorded as RecordedResponse | undefined
+      if (Array.isArray(recorded)) {
+        const count = served.get(key) || 0
+        served.set(key, count + 1)
+        response = recorded[count]
+      }
+      response = response || fallback || { status: 404 }
+
+      if (response.file) {
+        sendFile(req, res, fs.readFileSync(path.join(fixtureDir, response.file)))
+        return
+      }
+      res.writeHead(response.status || 200, {
+        'Content-Type': 'application/json',
+        ...response.headers
+      })
+      res.end(response.body === undefined ? '' : JSON.stringify(response.body))
+    })
+  }
+}
+
+// Leaves out what the request didn't have, so that snapshots only show what was sent
+function toReplayed(req: http.IncomingMessage, body: any): ReplayedRequest {
+  return JSON.parse(
+    JSON.stringify({ body, method: req.method, path: req.url, range: req.headers.range })
+  )
+}
+
+// Honours `Range: bytes=n-` like Travis does for logs
+function sendFile(req: http.IncomingMessage, res: http.ServerResponse, content: Buffer) {
+  const range = /bytes=(\d+)-/.exec((req.headers.range as string) || '')
+  const offset = range ? Number(range[1]) : 0
+  if (offset > 0 && offset >= content.length) {
+    res.writeHead(416)
+    res.end()
+    return
+  }
+  res.writeHead(range ? 206 : 200, { 'Content-Type': 'text/plain' })
+  res.end(content.slice(offset))
+}
+
+async function waitForQueue(baseUrl: string): Promise<void> {
+  const deadline = Date.now() + QUEUE_TIMEOUT
+  while (true) {
+    const queue = await getJson(`${baseUrl}/ci-sidecar/queue`)
+    if (queue.length === 0) {
+      return
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Builds are still queued: ${JSON.stringify(queue)}`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+}
+
+function getJson(uri: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ ...parse(uri), headers: { authorization: `Bearer ${ADMIN_SECRET}` } }, res => {
+        let data = ''
+        res.on('data', chunk => (data += chunk))
+        res.on('end', () => resolve(JSON.parse(data)))
+      })
+      .on('error', reject)
+  })
+}
+
+function listen(handler: http.RequestListener): Promise<http.Server> {
+  return new Promise(resolve => {
+    const server = http.createServer(handler)
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()))
+}
+
+function url(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
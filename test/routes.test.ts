@@ -0,0 +1,103 @@
+import express from 'express'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+
+import { mountTokenRoutes } from '../src/routes'
+import { TokenStore } from '../src/tokens'
+
+interface Response {
+  readonly body: string
+  readonly status: number
+}
+
+function send(
+  server: http.Server,
+  method: string,
+  uri: string,
+  body?: object,
+  secret = 'admin'
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        headers: { Authorization: `Bearer ${secret}`, 'Content-Type': 'application/json' },
+        host: '127.0.0.1',
+        method,
+        path: uri,
+        port: (server.address() as AddressInfo).port
+      },
+      res => {
+        let data = ''
+        res.on('data', chunk => (data += chunk))
+        res.on('end', () => resolve({ body: data, status: res.statusCode as number }))
+      }
+    )
+    req.on('error', reject)
+    req.end(body ? JSON.stringify(body) : undefined)
+  })
+}
+
+function listen(tokens: TokenStore, adminSecret: string | undefined): Promise<http.Server> {
+  const router = express.Router()
+  mountTokenRoutes(router, tokens, adminSecret)
+  return new Promise(resolve => {
+    const server = http.createServer(express().use(router))
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+describe('token routes', () => {
+  let filePath: string
+  let servers: http.Server[]
+
+  beforeEach(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'routes-')), 'tokens.json')
+    servers = []
+  })
+
+  afterEach(async () => {
+    await Promise.all(servers.map(s => new Promise(resolve => s.close(resolve))))
+  })
+
+  async function start(tokens: TokenStore, adminSecret: string | undefined) {
+    const server = await listen(tokens, adminSecret)
+    servers.push(server)
+    return server
+  }
+
+  test('are hidden without an admin secret and require it otherwise', async () => {
+    const tokens = new TokenStore(filePath, 'secret')
+    const hidden = await start(tokens, undefined)
+    const server = await start(tokens, 'admin')
+
+    expect((await send(hidden, 'PUT', '/tokens/installations/1', { token: 't' })).status).toBe(404)
+    expect(
+      (await send(server, 'PUT', '/tokens/installations/1', { token: 't' }, 'wrong')).status
+    ).toBe(401)
+    expect(tokens.get(1, 'owner', 'repo')).toBeUndefined()
+  })
+
+  test('store and remove tokens', async () => {
+    const tokens = new TokenStore(filePath, 'secret')
+    const server = await start(tokens, 'admin')
+
+    expect((await send(server, 'PUT', '/tokens/installations/1', { token: 'i' })).status).toBe(204)
+    expect((await send(server, 'PUT', '/tokens/repos/owner/repo', { token: 'r' })).status).toBe(204)
+    expect(tokens.get(1, 'owner', 'repo')).toBe('r')
+
+    expect((await send(server, 'DELETE', '/tokens/repos/owner/repo')).status).toBe(204)
+    expect(tokens.get(1, 'owner', 'repo')).toBe('i')
+    expect((await send(server, 'PUT', '/tokens/repos/owner/repo', {})).status).toBe(400)
+  })
+
+  test('report a disabled token store', async () => {
+    const server = await start(new TokenStore(filePath), 'admin')
+
+    const response = await send(server, 'PUT', '/tokens/installations/1', { token: 't' })
+    expect(response.status).toBe(503)
+    expect(JSON.parse(response.body).error).toContain('TOKEN_ENCRYPTION_KEY')
+  })
+})
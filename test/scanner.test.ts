@@ -0,0 +1,156 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import { LogScanner, streamLog } from '../src/scanner'
+
+const log: any = { debug: jest.fn() }
+const options = { endMarker: 'Your build exited', fence: 'output' }
+
+describe('LogScanner', () => {
+  test('finds blocks split across writes', () => {
+    const scanner = new LogScanner(log, '1', options)
+    expect(scanner.write(Buffer.from('$ npm test\n---out'))).toBe(false)
+    expect(scanner.write(Buffer.from('put\n{ "title": "T" }\n'))).toBe(false)
+    expect(scanner.inBlock).toBe(true)
+    expect(scanner.write(Buffer.from('---\r\nYour build exited with 0.\nignored\n'))).toBe(true)
+
+    expect(scanner.complete).toBe(true)
+    expect(scanner.inBlock).toBe(false)
+    expect(scanner.lines).toBe(5)
+    expect(scanner.closedBlocks).toEqual([
+      { kind: 'output', lines: ['{ "title": "T" }'], startLine: 2 }
+    ])
+  })
+
+  test('decodes multi-byte characters split across writes', () => {
+    const scanner = new LogScanner(log, '1', options)
+    const bytes = Buffer.from('---output\n"✓"\n---\n')
+    scanner.write(bytes.slice(0, 12))
+    scanner.write(bytes.slice(12))
+    expect(scanner.closedBlocks[0].lines).toEqual(['"✓"'])
+    expect(scanner.bytesScanned).toBe(bytes.length)
+  })
+
+  test('marks blocks that exceed the buffer limit', () => {
+    const scanner = new LogScanner(log, '1', { ...options, maxBufferedBytes: 10 })
+    scanner.write(Buffer.from('---output\n12345\n67890\nabcde\n---\n'))
+    expect(scanner.closedBlocks[0]).toEqual({
+      kind: 'output',
+      lines: ['12345', '67890'],
+      overflow: true,
+      startLine: 1
+    })
+  })
+
+  test('only completes a log without an end marker once it has ended', () => {
+    const scanner = new LogScanner(log, '1', { fence: 'output' })
+    scanner.write(Buffer.from('---output\n{}\n---'))
+    expect(scanner.complete).toBe(false)
+    scanner.end()
+    expect(scanner.complete).toBe(true)
+    expect(scanner.closedBlocks.length).toBe(1)
+  })
+})
+
+describe('streamLog', () => {
+  let content = ''
+  let ignoreRange = false
+  let requests: Array<string | undefined> = []
+  let server: http.Server
+  let stalled: http.ServerResponse | undefined
+  let uri: string
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      const range = req.headers.range as string | undefined
+      requests.push(range)
+      if (req.url === '/stalled.txt') {
+        // Sends the start of the log and then nothing more
+        res.write('$ npm test\n')
+        stalled = res
+        return
+      }
+      if (req.url !== '/log.txt') {
+        res.statusCode = 404
+        res.end()
+        return
+      }
+
+      const start = range && !ignoreRange ? Number(/bytes=(\d+)-/.exec(range)![1]) : 0
+      if (start >= content.length && start > 0) {
+        res.statusCode = 416
+        res.end()
+        return
+      }
+      res.statusCode = start > 0 ? 206 : 200
+      res.end(content.substr(start))
+    })
+    server.listen(0, '127.0.0.1', () => {
+      uri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/log.txt`
+      done()
+    })
+  })
+
+  afterAll(done => {
+    if (stalled) {
+      stalled.end()
+    }
+    server.close(done)
+  })
+
+  beforeEach(() => {
+    ignoreRange = false
+    requests = []
+  })
+
+  test('resumes from the last scanned byte as the log grows', async () => {
+    const scanner = new LogScanner(log, '1', options)
+    content = '$ npm test\n---output\n{ "title": "T",\n'
+    await streamLog(uri, {}, scanner)
+    expect(scanner.inBlock).toBe(true)
+
+    await streamLog(uri, {}, scanner)
+    content += '  "summary": "S" }\n---\nYour build exited with 0.\n'
+    await streamLog(uri, {}, scanner)
+
+    expect(requests).toEqual([undefined, 'bytes=37-', 'bytes=37-'])
+    expect(scanner.complete).toBe(true)
+    expect(scanner.closedBlocks[0].lines).toEqual(['{ "title": "T",', '  "summary": "S" }'])
+  })
+
+  test('skips the scanned part when the server ignores the range', async () => {
+    ignoreRange = true
+    const scanner = new LogScanner(log, '1', options)
+    content = '---output\n{}\n'
+    await streamLog(uri, {}, scanner)
+    content += '---\nYour build exited with 0.\n'
+    await streamLog(uri, {}, scanner)
+
+    expect(scanner.complete).toBe(true)
+    expect(scanner.closedBlocks).toEqual([{ kind: 'output', lines: ['{}'], startLine: 1 }])
+  })
+
+  test('stops reading once the end marker is seen', async () => {
+    const scanner = new LogScanner(log, '1', options)
+    content = `Your build exited with 0.\n${'x'.repeat(1024 * 1024)}\n`
+    await streamLog(uri, {}, scanner)
+
+    expect(scanner.complete).toBe(true)
+    expect(scanner.bytesScanned).toBeLessThan(content.length)
+  })
+
+  test('rejects with the status code of failed requests', async () => {
+    const scanner = new LogScanner(log, '1', options)
+    await expect(streamLog(`${uri}.missing`, {}, scanner)).rejects.toMatchObject({
+      statusCode: 404
+    })
+  })
+
+  test('gives up on stalled requests with a retryable error', async () => {
+    const scanner = new LogScanner(log, '1', options)
+    await expect(
+      streamLog(uri.replace('log.txt', 'stalled.txt'), {}, scanner, 50)
+    ).rejects.toMatchObject({ code: 'ESOCKETTIMEDOUT' })
+    expect(scanner.lines).toBe(1)
+  })
+})
@@ -0,0 +1,24 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createFileStore } from '../src/store'
+
+describe('createFileStore', () => {
+  test('round trips entries through a file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'))
+    const store = createFileStore<object>(path.join(dir, 'data', 'entries.json'))
+    expect(store.load()).toEqual([])
+
+    store.save([{ id: '1' }, { id: '2' }])
+    expect(store.load()).toEqual([{ id: '1' }, { id: '2' }])
+  })
+
+  test('leaves unreadable files to the caller', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'))
+    const filePath = path.join(dir, 'entries.json')
+    fs.writeFileSync(filePath, '{')
+
+    expect(() => createFileStore(filePath).load()).toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,55 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { AuthorizationError } from '../src/ci'
+import { TokenStore } from '../src/tokens'
+
+let filePath: string
+
+beforeEach(() => {
+  filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-')), 'tokens.json')
+})
+
+describe('TokenStore', () => {
+  test('stores tokens encrypted and reads them back', () => {
+    new TokenStore(filePath, 'secret').setForRepo('Owner', 'Repo', 'travis-token')
+
+    expect(fs.readFileSync(filePath, 'utf8')).not.toContain('travis-token')
+    expect(new TokenStore(filePath, 'secret').get(undefined, 'owner', 'repo')).toBe('travis-token')
+  })
+
+  test('prefers repository tokens over installation tokens', () => {
+    const tokens = new TokenStore(filePath, 'secret')
+    tokens.setForInstallation(1, 'installation-token')
+    tokens.setForRepo('owner', 'repo', 'repo-token')
+
+    expect(tokens.get(1, 'owner', 'repo')).toBe('repo-token')
+    expect(tokens.get(1, 'owner', 'other')).toBe('installation-token')
+    expect(tokens.get(2, 'owner', 'other')).toBeUndefined()
+
+    tokens.setForRepo('owner', 'repo', undefined)
+    expect(tokens.get(1, 'owner', 'repo')).toBe('installation-token')
+  })
+
+  test('is disabled without a secret', () => {
+    new TokenStore(filePath, 'secret').setForInstallation(1, 'installation-token')
+    const tokens = new TokenStore(filePath)
+
+    expect(tokens.enabled).toBe(false)
+    expect(tokens.get(1, 'owner', 'repo')).toBeUndefined()
+    expect(() => tokens.setForInstallation(1, 'token')).toThrow('Token storage is disabled')
+  })
+
+  test('reports tokens that can no longer be read as authorization errors', () => {
+    new TokenStore(filePath, 'secret').setForInstallation(1, 'installation-token')
+
+    expect(() => new TokenStore(filePath, 'changed').get(1, 'owner', 'repo')).toThrow(
+      AuthorizationError
+    )
+    fs.writeFileSync(filePath, '{ not json')
+    expect(() => new TokenStore(filePath, 'secret').get(1, 'owner', 'repo')).toThrow(
+      /could not be read/
+    )
+  })
+})
@@ -0,0 +1,224 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import { AuthorizationError } from '../src/ci'
+import { DEFAULT_CONFIG } from '../src/config'
+import { TokenStore } from '../src/tokens'
+import { createTravisProvider, Travis } from '../src/travis'
+
+function status(targetUrl?: string) {
+  return {
+    repository: { name: 'repo', owner: { login: 'owner' } },
+    sha: 'abc123',
+    target_url: targetUrl
+  }
+}
+
+describe('Travis.parseStatus', () => {
+  test('parses build statuses from both Travis domains', () => {
+    expect(
+      Travis.parseStatus(
+        status('https://travis-ci.org/owner/repo/builds/100?utm_source=github_status')
+      )
+    ).toEqual({
+      domain: 'travis-ci.org',
+      headSha: 'abc123',
+      id: '100',
+      owner: 'owner',
+      repo: 'repo'
+    })
+    expect(Travis.parseStatus(status('https://travis-ci.com/owner/repo/builds/7'))).toMatchObject({
+      domain: 'travis-ci.com',
+      id: '7'
+    })
+  })
+
+  test('ignores statuses without a Travis build', () => {
+    expect(Travis.parseStatus(status())).toBeUndefined()
+    expect(Travis.parseStatus(status('https://travis-ci.org/owner/repo/jobs/100'))).toBeUndefined()
+    expect(
+      Travis.parseStatus(status('https://ci.example.com/owner/repo/builds/100'))
+    ).toBeUndefined()
+  })
+})
+
+describe('Travis.getJobs', () => {
+  const log: any = { debug: jest.fn(), info: jest.fn() }
+  const buildInfo = { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' }
+
+  function travisJob(id: number, env: string, os?: string) {
+    return {
+      allow_failure: false,
+      config: { env, os },
+      finished_at: '2018-07-01T00:01:00Z',
+      id,
+      number: `1.${id}`,
+      stage: { name: 'Test' },
+      started_at: '2018-07-01T00:00:00Z',
+      state: 'passed'
+    }
+  }
+
+  test('only lists the jobs of builds for the configured events', () => {
+    const build: any = {
+      branch: { name: 'main' },
+      event_type: 'push',
+      jobs: [travisJob(1, 'CHECK_NAME=Lint')]
+    }
+
+    expect(new Travis({ log } as any, buildInfo, DEFAULT_CONFIG).getJobs(build)).toBeUndefined()
+    const config = { ...DEFAULT_CONFIG, events: ['pull_request', 'push'] }
+    expect(new Travis({ log } as any, buildInfo, config).getJobs(build)).toMatchObject([
+      { branch: 'main', jobId: '1', name: 'Lint' }
+    ])
+    expect(
+      new Travis({ log } as any, buildInfo, DEFAULT_CONFIG).getJobs({
+        ...build,
+        event_type: 'pull_request'
+      })
+    ).toMatchObject([{ branch: undefined, name: 'Lint' }])
+  })
+
+  test('fills check name templates from job variables and Travis built-ins', () => {
+    const travis = new Travis({ log } as any, buildInfo, DEFAULT_CONFIG)
+    const template =
+      'CHECK_NAME="${TRAVIS_BUILD_STAGE_NAME}: Node ${NODE_VERSION} (${TRAVIS_OS_NAME})"'
+    const jobs = travis.getJobs({
+      event_type: 'pull_request',
+      jobs: [
+        travisJob(1, `NODE_VERSION=8 ${template}`),
+        travisJob(2, `NODE_VERSION=10 ${template}`, 'osx'),
+        travisJob(3, 'CHECK_NAME="Job ${TRAVIS_JOB_NUMBER}${UNSET}"')
+      ]
+    } as any)
+
+    expect(jobs!.map(j => j.name)).toEqual([
+      'Test: Node 8 (linux)',
+      'Test: Node 10 (osx)',
+      'Job 1.3'
+    ])
+  })
+
+  test('reads variables set under env: global:', () => {
+    const travis = new Travis({ log } as any, buildInfo, DEFAULT_CONFIG)
+    const globalEnv = 'CHECK_NAME="Node ${NODE_VERSION}" CHECK_PARSER=tap NODE_VERSION=6'
+    const jobs = travis.getJobs({
+      event_type: 'pull_request',
+      jobs: [
+        {
+          ...travisJob(1, 'NODE_VERSION=8'),
+          config: { env: 'NODE_VERSION=8', global_env: globalEnv }
+        },
+        { ...travisJob(2, ''), config: { global_env: globalEnv } }
+      ]
+    } as any)
+
+    expect(jobs).toMatchObject([
+      { name: 'Node 8', parser: 'tap' },
+      { name: 'Node 6', parser: 'tap' }
+    ])
+  })
+})
+
+describe('Travis authorization', () => {
+  const log: any = { debug: jest.fn(), error: jest.fn(), info: jest.fn(), warn: jest.fn() }
+  const buildInfo = { domain: 'travis-ci.org', headSha: 'abc123', id: '1', owner: 'o', repo: 'r' }
+  let server: http.Server
+  let apiUrl: string
+
+  beforeAll(done => {
+    // Answers every request with the status in its first path segment, e.g. `/401/build/1`
+    server = http.createServer((req, res) => {
+      res.statusCode = Number((req.url || '').split('/')[1])
+      res.end()
+    })
+    server.listen(0, '127.0.0.1', () => {
+      apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll(done => {
+    server.close(done)
+  })
+
+  test('reports refused builds as authorization errors', async () => {
+    for (const status of [401, 403, 404]) {
+      const travis = new Travis(
+        { log } as any,
+        buildInfo,
+        DEFAULT_CONFIG,
+        undefined,
+        `${apiUrl}/${status}`
+      )
+      await expect(travis.getSupportedJobs()).rejects.toThrow(
+        'travis-ci.org refused loading build 1. If this is a private repository, a Travis API token must be configured for o/r or its installation.'
+      )
+    }
+  })
+
+  test('tells rejected tokens apart from missing ones', async () => {
+    const withToken = new Travis(
+      { log } as any,
+      buildInfo,
+      DEFAULT_CONFIG,
+      'token',
+      `${apiUrl}/403`
+    )
+    await expect(withToken.restartJob('2')).rejects.toThrow(
+      'The Travis API token configured for o/r was rejected by travis-ci.org while restarting job 2.'
+    )
+
+    const withoutToken = new Travis(
+      { log } as any,
+      buildInfo,
+      DEFAULT_CONFIG,
+      undefined,
+      `${apiUrl}/401`
+    )
+    await expect(withoutToken.cancelBuild()).rejects.toBeInstanceOf(AuthorizationError)
+    await expect(withoutToken.cancelBuild()).rejects.toThrow(
+      'Changing builds requires a Travis API token'
+    )
+  })
+
+  test('leaves other failures to the caller', async () => {
+    const travis = new Travis({ log } as any, buildInfo, DEFAULT_CONFIG, undefined, `${apiUrl}/400`)
+    await expect(travis.getSupportedJobs()).rejects.toHaveProperty('statusCode', 400)
+  })
+})
+
+describe('Travis build cache', () => {
+  const log: any = { debug: jest.fn(), error: jest.fn(), info: jest.fn(), warn: jest.fn() }
+  const buildInfo = { domain: 'travis-ci.org', headSha: 'abc123', id: '5', owner: 'o', repo: 'r' }
+  let server: http.Server
+  let apiUrl: string
+  let requests = 0
+
+  beforeAll(done => {
+    server = http.createServer((_, res) => {
+      requests++
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify({ event_type: 'pull_request', jobs: [], state: 'passed' }))
+    })
+    server.listen(0, '127.0.0.1', () => {
+      apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll(done => {
+    server.close(done)
+  })
+
+  test('loads finished builds again once a status reports that they changed', async () => {
+    const travis = new Travis({ log } as any, buildInfo, DEFAULT_CONFIG, undefined, apiUrl)
+    await travis.getSupportedJobs()
+    await travis.getSupportedJobs()
+    expect(requests).toBe(1)
+
+    createTravisProvider(new TokenStore('unused.json'), apiUrl).forgetBuild(buildInfo)
+    await travis.getSupportedJobs()
+    expect(requests).toBe(2)
+  })
+})
@@ -0,0 +1,39 @@
+declare module 'express' {
+  import { IncomingMessage, ServerResponse } from 'http'
+
+  declare namespace express {
+    interface Request extends IncomingMessage {
+      body: any
+      params: { [key: string]: string }
+      query: { [key: string]: string | undefined }
+    }
+
+    interface Response extends ServerResponse {
+      json(body: any): Response
+      send(body?: any): Response
+      sendStatus(code: number): Response
+      set(field: string, value: string): Response
+      status(code: number): Response
+      type(type: string): Response
+    }
+
+    type NextFunction = (err?: any) => void
+    type RequestHandler = (req: Request, res: Response, next: NextFunction) => any
+
+    interface Router {
+      delete(path: string, ...handlers: RequestHandler[]): Router
+      get(path: string, ...handlers: RequestHandler[]): Router
+      post(path: string, ...handlers: RequestHandler[]): Router
+      put(path: string, ...handlers: RequestHandler[]): Router
+      use(...handlers: RequestHandler[]): Router
+    }
+
+    interface Express {
+      json(): RequestHandler
+      Router(): Router
+    }
+  }
+
+  declare const express: express.Express
+  export = express
+}